@@ -12,6 +12,8 @@ async function main() {
     sourcemap: !production,
     sourcesContent: false,
     platform: 'node',
+    // Prefer ESM builds (jsonc-parser's UMD build uses dynamic requires esbuild can't follow)
+    mainFields: ['module', 'main'],
     outfile: 'out/extension.js',
     external: ['vscode'],
     logLevel: 'silent',
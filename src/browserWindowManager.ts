@@ -1,5 +1,6 @@
 import { exec } from "child_process"
 import { promisify } from "util"
+import { WindowInfo, WindowSource } from "./windowSource"
 
 const execAsync = promisify(exec)
 
@@ -9,7 +10,22 @@ export interface BrowserWindowInfo {
   windowIndex: number
 }
 
-export class BrowserWindowManager {
+export class BrowserWindowManager implements WindowSource {
+  readonly id = "browser"
+  readonly kind = "browser"
+
+  /**
+   * Get all open browser windows as generic window records
+   */
+  async getOpenWindows(): Promise<WindowInfo[]> {
+    const windows = await this.getBrowserWindows()
+    return windows.map((w) => ({
+      appName: w.app,
+      windowTitle: w.title,
+      windowIndex: w.windowIndex,
+    }))
+  }
+
   /**
    * Get all open Safari and Chrome windows using AppleScript
    */
@@ -29,9 +45,12 @@ export class BrowserWindowManager {
   /**
    * Focus a specific browser window
    */
-  async focusWindow(appName: string, windowIndex: number): Promise<boolean> {
+  async focusWindow(windowInfo: WindowInfo): Promise<boolean> {
     try {
-      const script = this.getFocusScript(appName, windowIndex)
+      const script = this.getFocusScript(
+        windowInfo.appName,
+        windowInfo.windowIndex,
+      )
       await execAsync(`osascript -e '${script.replace(/'/g, "'\\''")}'`)
       return true
     } catch (error: unknown) {
@@ -40,6 +59,13 @@ export class BrowserWindowManager {
     }
   }
 
+  /**
+   * Get the friendly window name
+   */
+  getWorkspaceName(windowInfo: WindowInfo): string {
+    return windowInfo.windowTitle
+  }
+
   /**
    * AppleScript to get all windows from Safari and Chrome
    * Uses native application interfaces for better window detection
@@ -11,6 +11,13 @@ function log(...args: unknown[]): void {
   console.log("[ClaudeCodeDecorator]", ...args)
 }
 
+export interface StatusChangeEvent {
+  path: string // Workspace or member folder path
+  previous: ClaudeCodeStatusInfo | undefined
+  current: ClaudeCodeStatusInfo | undefined
+  closed?: boolean // The workspace is no longer listed (current is undefined)
+}
+
 export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
   private _onDidChangeFileDecorations: vscode.EventEmitter<
     vscode.Uri | vscode.Uri[]
@@ -18,6 +25,12 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
   readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[]> =
     this._onDidChangeFileDecorations.event
 
+  // Fired when the status of a workspace changes (previous is undefined on
+  // the first update)
+  private _onDidChangeStatus = new vscode.EventEmitter<StatusChangeEvent>()
+  readonly onDidChangeStatus: vscode.Event<StatusChangeEvent> =
+    this._onDidChangeStatus.event
+
   private statusCache = new Map<string, ClaudeCodeStatusInfo | undefined>()
   private claudeMonitor: ClaudeCodeMonitor
   private acknowledgedTimestamps = new Map<string, number>() // Track acknowledged message timestamps
@@ -60,26 +73,7 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
       return undefined
     }
 
-    let status = statusInfo.status
-
-    // Check if user has acknowledged this message timestamp
-    const acknowledgedTime = this.acknowledgedTimestamps.get(workspacePath)
-    if (
-      acknowledgedTime &&
-      statusInfo.lastMessageTime &&
-      statusInfo.lastMessageTime <= acknowledgedTime
-    ) {
-      // User has seen this message, show Running instead of RecentlyFinished or Executing
-      if (
-        status === ClaudeCodeStatus.RecentlyFinished ||
-        status === ClaudeCodeStatus.Executing
-      ) {
-        log(
-          `Message acknowledged for ${workspacePath}, showing Running instead of ${ClaudeCodeStatus[status]}`,
-        )
-        status = ClaudeCodeStatus.Running
-      }
-    }
+    const status = this.applyAcknowledgment(workspacePath, statusInfo)
 
     log(
       `Providing decoration for ${workspacePath}: ${ClaudeCodeStatus[status]} (enum value: ${status})`,
@@ -146,11 +140,64 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
       return decoration
     }
 
+    if (status === ClaudeCodeStatus.Unknown) {
+      const decoration = {
+        badge: "?",
+        tooltip:
+          "Claude Code: Status Unknown (remote workspace without a local mirror)",
+        color: new vscode.ThemeColor("descriptionForeground"),
+      }
+      log(`Returning Unknown decoration:`, decoration)
+      return decoration
+    }
+
     // NoSession - show nothing
     log(`NoSession status - returning undefined (no badge)`)
     return undefined
   }
 
+  /**
+   * Get the status shown for a path, taking acknowledgments into account
+   */
+  getDisplayedStatus(workspacePath: string): ClaudeCodeStatus | undefined {
+    const statusInfo = this.statusCache.get(workspacePath)
+    return statusInfo
+      ? this.applyAcknowledgment(workspacePath, statusInfo)
+      : undefined
+  }
+
+  /**
+   * Show Running instead of RecentlyFinished or Executing once the user has
+   * seen the last message
+   */
+  private applyAcknowledgment(
+    workspacePath: string,
+    statusInfo: ClaudeCodeStatusInfo,
+  ): ClaudeCodeStatus {
+    const status = statusInfo.status
+
+    // Check if user has acknowledged this message timestamp
+    const acknowledgedTime = this.acknowledgedTimestamps.get(workspacePath)
+    if (
+      acknowledgedTime &&
+      statusInfo.lastMessageTime &&
+      statusInfo.lastMessageTime <= acknowledgedTime
+    ) {
+      // User has seen this message, show Running instead of RecentlyFinished or Executing
+      if (
+        status === ClaudeCodeStatus.RecentlyFinished ||
+        status === ClaudeCodeStatus.Executing
+      ) {
+        log(
+          `Message acknowledged for ${workspacePath}, showing Running instead of ${ClaudeCodeStatus[status]}`,
+        )
+        return ClaudeCodeStatus.Running
+      }
+    }
+
+    return status
+  }
+
   /**
    * Calculate gradient color for recently finished tasks
    * Returns color that smoothly transitions from green to blue over 30 minutes
@@ -252,6 +299,13 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
     if (statusChanged) {
       log(`Status changed for ${workspacePath}, updating decoration`)
       this.statusCache.set(workspacePath, status)
+      if (oldStatus?.status !== status?.status) {
+        this._onDidChangeStatus.fire({
+          path: workspacePath,
+          previous: oldStatus,
+          current: status,
+        })
+      }
       // Trigger decoration update using cached URIs
       const cachedUris = this.uriCache.get(workspacePath) || []
       if (cachedUris.length > 0) {
@@ -271,6 +325,54 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
     return false // No change
   }
 
+  /**
+   * Forget the status of a workspace or member folder that is no longer
+   * listed, reported as a closing change
+   * When listed again, its first status is reported as a change
+   */
+  forgetStatus(workspacePath: string): void {
+    const previous = this.statusCache.get(workspacePath)
+    if (!this.statusCache.delete(workspacePath)) {
+      return
+    }
+    this._onDidChangeStatus.fire({
+      path: workspacePath,
+      previous,
+      current: undefined,
+      closed: true,
+    })
+  }
+
+  /**
+   * Get the last known status of a path (workspace, folder or session)
+   */
+  getCachedStatus(path: string): ClaudeCodeStatusInfo | undefined {
+    return this.statusCache.get(path)
+  }
+
+  /**
+   * Set the status of a path computed elsewhere (e.g. an individual session)
+   * Returns true if the status changed
+   */
+  setStatus(path: string, status: ClaudeCodeStatusInfo | undefined): boolean {
+    const oldStatus = this.statusCache.get(path)
+    const statusChanged =
+      !oldStatus ||
+      oldStatus.status !== status?.status ||
+      oldStatus.lastMessageTime !== status?.lastMessageTime
+
+    if (statusChanged) {
+      this.statusCache.set(path, status)
+      const cachedUris = this.uriCache.get(path) || []
+      this._onDidChangeFileDecorations.fire(
+        cachedUris.length > 0
+          ? cachedUris
+          : vscode.Uri.from({ scheme: "workspace-list", path }),
+      )
+    }
+    return statusChanged
+  }
+
   async updateAllStatuses(workspacePaths: string[]): Promise<string[]> {
     log(`Updating statuses for ${workspacePaths.length} workspaces`)
 
@@ -315,5 +417,6 @@ export class ClaudeCodeDecorator implements vscode.FileDecorationProvider {
   dispose(): void {
     this.claudeMonitor.dispose()
     this._onDidChangeFileDecorations.dispose()
+    this._onDidChangeStatus.dispose()
   }
 }
@@ -1,15 +1,28 @@
-import { exec } from "child_process"
 import * as fs from "fs/promises"
 import * as path from "path"
-import { promisify } from "util"
 import * as vscode from "vscode"
+import { ClaudeHookEvents, HookState } from "./claudeHooks"
+import { findClaudeCodePids, getProcessCwd } from "./claudeProcessScanner"
 import { outputChannel } from "./extension"
-import { ClaudeCodeStatus, ClaudeCodeStatusInfo } from "./types"
-
-const execAsync = promisify(exec)
+import {
+  ClaudeCodeStatus,
+  ClaudeCodeStatusInfo,
+  ClaudeSessionInfo,
+  getStatusUrgency,
+  ModelUsage,
+  TokenUsage,
+  UsageSummary,
+} from "./types"
+import { addUsage, mergeUsage } from "./usageCost"
 
 const DEBUG = false // Enable debug logging - set to true for debugging
 
+// Conversation files are parsed in chunks of this size
+const READ_CHUNK_SIZE = 64 * 1024
+
+// Interval between evictions of the session details of old conversations
+const SESSION_DETAILS_PRUNE_INTERVAL = 60 * 60 * 1000 // 1 hour
+
 function log(...args: unknown[]): void {
   if (!DEBUG) {
     return
@@ -30,12 +43,52 @@ interface ClaudeMessage {
 }
 
 interface ConversationMetadata {
+  filePath: string
   workingDirectory: string
   lastModified: number
   messageCount: number
   lastMessage?: ClaudeMessage
 }
 
+interface UsageRecord {
+  timestamp: number
+  model: string
+  tokens: TokenUsage
+}
+
+interface SessionDetails {
+  offset: number // Bytes of the file already parsed (up to the last full line)
+  messageCount: number
+  firstPrompt?: string
+  usage: Map<string, UsageRecord> // Assistant message id -> token usage
+}
+
+/**
+ * Pick the most urgent of several statuses
+ * Statuses as urgent keep the most recent message
+ */
+function pickMostUrgent(statuses: ClaudeCodeStatusInfo[]): ClaudeCodeStatusInfo {
+  return statuses.reduce((best, current) => {
+    const urgencyDiff =
+      getStatusUrgency(current.status) - getStatusUrgency(best.status)
+    if (urgencyDiff !== 0) {
+      return urgencyDiff < 0 ? current : best
+    }
+    return (current.lastMessageTime || 0) > (best.lastMessageTime || 0)
+      ? current
+      : best
+  })
+}
+
+/**
+ * Get the start of the current week (Monday 00:00, local time)
+ */
+function getWeekStart(now: Date): number {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start.getTime()
+}
+
 interface ClaudeProcess {
   pid: string
   cwd: string
@@ -62,12 +115,25 @@ export class ClaudeCodeMonitor {
     Array<{ path: string; mtime: number }>
   > = new Map() // Cache for fs.readdir results with mtime
 
+  // Session details parsed incrementally as conversation files grow
+  private sessionDetailsCache: Map<string, SessionDetails> = new Map()
+  private lastSessionDetailsPrune = Date.now()
+
   // Track file sizes to detect when only timestamp changes (file watch -> state transition)
   private fileSizeCache: Map<string, number> = new Map()
 
   // Track per-workspace startup times to prevent false "Recently Finished" states
   private workspaceStartupTimes: Map<string, number> = new Map()
 
+  // Member folders of multi-root workspaces (workspace file -> folders)
+  private workspaceFolders: Map<string, string[]> = new Map()
+
+  // Remote workspaces (remote key -> local mirror, null when there is none)
+  private remoteMirrors: Map<string, string | null> = new Map()
+
+  // Events reported by the Claude Code hooks (workspacesList.useClaudeHooks)
+  private hookEvents = new ClaudeHookEvents()
+
   // Process monitoring cache
   private claudeProcessCache: Map<string, ClaudeProcess> = new Map() // pid -> process info
   private processMonitorInterval: NodeJS.Timeout | undefined
@@ -124,6 +190,15 @@ export class ClaudeCodeMonitor {
       this.updateClaudeProcessCache().catch((err) =>
         log("Failed to update process cache:", err),
       )
+      if (
+        Date.now() - this.lastSessionDetailsPrune >=
+        SESSION_DETAILS_PRUNE_INTERVAL
+      ) {
+        this.lastSessionDetailsPrune = Date.now()
+        this.pruneSessionDetails().catch((err) =>
+          log("Failed to prune session details:", err),
+        )
+      }
     }, processMonitorInterval)
   }
 
@@ -140,39 +215,25 @@ export class ClaudeCodeMonitor {
 
   /**
    * Update the cache of running Claude processes
-   * Only performs lsof on new processes
+   * Only looks up the working directory of new processes
    */
   private async updateClaudeProcessCache(): Promise<void> {
     try {
-      // Get all Claude processes (using || true to avoid error when no processes found)
-      const { stdout } = await execAsync(
-        "ps aux | grep -i claude | grep -v grep || true",
-      )
+      // Get all Claude Code CLI processes (/proc on Linux, ps on macOS)
+      const pids = await findClaudeCodePids()
 
-      if (!stdout.trim()) {
+      if (pids.length === 0) {
         log("No Claude processes found")
         // Clear cache if no processes running
         this.claudeProcessCache.clear()
         return
       }
 
-      const lines = stdout
-        .trim()
-        .split("\n")
-        .filter((line) => line.trim())
-
       const currentPids = new Set<string>()
 
-      log(`Scanning ${lines.length} Claude process(es)`)
-
-      for (const line of lines) {
-        const parts = line.trim().split(/\s+/)
-        const pid = parts[1]
-
-        if (!pid) {
-          continue
-        }
+      log(`Scanning ${pids.length} Claude process(es)`)
 
+      for (const pid of pids) {
         currentPids.add(pid)
 
         // Skip if we already have this process cached
@@ -182,11 +243,11 @@ export class ClaudeCodeMonitor {
 
         // New process - get its working directory
         try {
-          const { stdout: cwdOutput } = await execAsync(
-            `lsof -a -p ${pid} -d cwd 2>/dev/null | tail -1`,
-          )
-          const cwdParts = cwdOutput.trim().split(/\s+/)
-          const cwd = cwdParts[cwdParts.length - 1]
+          const cwd = await getProcessCwd(pid)
+          if (!cwd) {
+            log(`  ✗ No cwd for process ${pid}`)
+            continue
+          }
 
           const normalizedCwd = path.normalize(cwd)
 
@@ -247,12 +308,72 @@ export class ClaudeCodeMonitor {
     return false
   }
 
+  /**
+   * Register the member folders of a multi-root workspace
+   * The status of the workspace is then aggregated across its folders
+   */
+  setWorkspaceFolders(workspacePath: string, folders: string[]): void {
+    this.workspaceFolders.set(workspacePath, folders)
+  }
+
+  /**
+   * Register a remote workspace and the local folder mirroring it
+   * Remotes without a local mirror report an Unknown status
+   */
+  setRemoteMirror(workspacePath: string, localPath?: string): void {
+    this.remoteMirrors.set(workspacePath, localPath || null)
+  }
+
+  /**
+   * Get the aggregated status of a multi-root workspace
+   * The most urgent member status wins, session counts are summed
+   */
+  private async getMultiRootStatus(
+    folders: string[],
+  ): Promise<ClaudeCodeStatusInfo | undefined> {
+    const statuses = (
+      await Promise.all(folders.map((folder) => this.getStatus(folder)))
+    ).filter((s) => s !== undefined) as ClaudeCodeStatusInfo[]
+
+    if (statuses.length === 0) {
+      return folders.length === 0
+        ? { status: ClaudeCodeStatus.NoSession, conversationCount: 0 }
+        : undefined
+    }
+
+    const mostUrgent = pickMostUrgent(statuses)
+
+    return {
+      status: mostUrgent.status,
+      lastMessageTime: mostUrgent.lastMessageTime,
+      conversationCount: statuses.reduce(
+        (sum, s) => sum + (s.conversationCount || 0),
+        0,
+      ),
+      lastActivityTime: Math.max(0, ...statuses.map((s) => s.lastActivityTime || 0)),
+    }
+  }
+
   /**
    * Get the Claude Code status for a workspace
    */
   async getStatus(
     workspacePath: string,
   ): Promise<ClaudeCodeStatusInfo | undefined> {
+    const memberFolders = this.workspaceFolders.get(workspacePath)
+    if (memberFolders) {
+      return this.getMultiRootStatus(memberFolders)
+    }
+
+    // Remote conversations are stored on the remote host, only a local
+    // mirror of the project can be read
+    if (this.remoteMirrors.has(workspacePath)) {
+      const localPath = this.remoteMirrors.get(workspacePath)
+      return localPath
+        ? this.getStatus(localPath)
+        : { status: ClaudeCodeStatus.Unknown }
+    }
+
     // Testing performance
     /*return {
       status: Object.values(ClaudeCodeStatus)[
@@ -286,79 +407,212 @@ export class ClaudeCodeMonitor {
         }
       }
 
-      // Sort conversations by last modified time to ensure we use the most recent
-      conversations.sort((a, b) => b.lastModified - a.lastModified)
-
-      // Check for any conversation waiting for input (highest priority)
-      const waitingInfo = await this.checkForWaitingInput(conversations)
-      if (waitingInfo.isWaiting) {
-        const timestamp = waitingInfo.lastMessageTime
-          ? new Date(waitingInfo.lastMessageTime).toLocaleTimeString()
-          : "unknown"
-        logEvent(`→ Status: WaitingForInput @ ${timestamp}`)
-        return {
-          status: ClaudeCodeStatus.WaitingForInput,
-          lastMessageTime: waitingInfo.lastMessageTime,
-          conversationCount: conversations.length,
-        }
+      const statusInfo = await this.computeStatus(
+        conversations,
+        workspacePath,
+        isProcessRunning,
+      )
+      return {
+        ...statusInfo,
+        lastActivityTime: Math.max(...conversations.map((c) => c.lastModified)),
       }
+    } catch (error) {
+      console.error("Failed to get Claude Code status:", error)
+      return undefined
+    }
+  }
 
-      // Check for active execution (recent file activity = Claude is working)
-      const executingInfo = await this.checkForExecuting(conversations)
-      if (executingInfo.isExecuting) {
-        const timestamp = executingInfo.lastMessageTime
-          ? new Date(executingInfo.lastMessageTime).toLocaleTimeString()
-          : "unknown"
-        logEvent(`→ Status: Executing @ ${timestamp}`)
-        return {
-          status: ClaudeCodeStatus.Executing,
-          lastMessageTime: executingInfo.lastMessageTime,
-          conversationCount: conversations.length,
-        }
+  /**
+   * Compute the status of a set of conversations
+   * With hooks enabled, conversations that reported hook events get their
+   * exact status, the others fall back to the heuristics
+   * Status changes are reported through logStatus (logEvent by default)
+   */
+  private async computeStatus(
+    conversations: ConversationMetadata[],
+    workspacePath: string,
+    isProcessRunning: boolean,
+    logStatus: (...args: unknown[]) => void = logEvent,
+  ): Promise<ClaudeCodeStatusInfo> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    if (!config.get<boolean>("useClaudeHooks", false)) {
+      return this.computeHeuristicStatus(
+        conversations,
+        workspacePath,
+        isProcessRunning,
+        logStatus,
+      )
+    }
+
+    await this.hookEvents.refresh()
+
+    const statuses: ClaudeCodeStatusInfo[] = []
+    const withoutHooks: ConversationMetadata[] = []
+    for (const convo of conversations) {
+      const state = this.hookEvents.getState(convo.filePath)
+      if (state) {
+        statuses.push(
+          this.getHookStatus(convo, state, workspacePath, isProcessRunning),
+        )
+      } else {
+        withoutHooks.push(convo)
       }
+    }
 
-      // Check for recently finished (last message from assistant, < 30 min)
-      // This means Claude finished but user hasn't started a new task yet
-      const recentlyFinishedInfo = await this.checkForRecentlyFinished(
+    if (statuses.length === 0) {
+      return this.computeHeuristicStatus(
         conversations,
         workspacePath,
+        isProcessRunning,
+        logStatus,
       )
-      if (recentlyFinishedInfo.isRecentlyFinished) {
-        const timestamp = recentlyFinishedInfo.lastMessageTime
-          ? new Date(recentlyFinishedInfo.lastMessageTime).toLocaleTimeString()
-          : "unknown"
-        const minutesAgo = recentlyFinishedInfo.lastMessageTime
-          ? Math.round(
-              (Date.now() - recentlyFinishedInfo.lastMessageTime) / 1000 / 60,
-            )
-          : 0
-        logEvent(
-          `→ Status: RecentlyFinished @ ${timestamp} (${minutesAgo}min ago)`,
-        )
-        return {
-          status: ClaudeCodeStatus.RecentlyFinished,
-          lastMessageTime: recentlyFinishedInfo.lastMessageTime,
-          conversationCount: conversations.length,
-        }
+    }
+
+    // Conversations started before the hooks were installed
+    if (withoutHooks.length > 0) {
+      statuses.push(
+        await this.computeHeuristicStatus(
+          withoutHooks,
+          workspacePath,
+          isProcessRunning,
+          log,
+        ),
+      )
+    }
+
+    const mostUrgent = pickMostUrgent(statuses)
+    logStatus(`→ Status (hooks): ${ClaudeCodeStatus[mostUrgent.status]}`)
+    return { ...mostUrgent, conversationCount: conversations.length }
+  }
+
+  /**
+   * Get the status of a conversation from its last hook event
+   */
+  private getHookStatus(
+    convo: ConversationMetadata,
+    state: HookState,
+    workspacePath: string,
+    isProcessRunning: boolean,
+  ): ClaudeCodeStatusInfo {
+    const idle = {
+      status: isProcessRunning
+        ? ClaudeCodeStatus.Running
+        : ClaudeCodeStatus.NotRunning,
+    }
+
+    if (state.event === "Stop") {
+      // Same window as the heuristic, and not on the initial startup
+      const workspaceStartup = this.workspaceStartupTimes.get(workspacePath)
+      const isRecent =
+        Date.now() - state.timestamp <= 30 * 60 * 1000 &&
+        (!workspaceStartup || state.timestamp >= workspaceStartup)
+      return isRecent
+        ? {
+            status: ClaudeCodeStatus.RecentlyFinished,
+            lastMessageTime: state.timestamp,
+          }
+        : idle
+    }
+
+    // No hook fires when Claude exits or is interrupted (Esc) mid-task
+    const wasInterrupted =
+      convo.lastModified > state.timestamp &&
+      convo.lastMessage?.role === "user" &&
+      JSON.stringify(convo.lastMessage.content).includes(
+        "Request interrupted by user",
+      )
+    if (!isProcessRunning || wasInterrupted) {
+      return idle
+    }
+
+    return {
+      status:
+        state.event === "Notification"
+          ? ClaudeCodeStatus.WaitingForInput
+          : ClaudeCodeStatus.Executing,
+      lastMessageTime: state.timestamp,
+    }
+  }
+
+  /**
+   * Compute the status of a set of conversations from their last messages
+   * and modification times
+   */
+  private async computeHeuristicStatus(
+    conversations: ConversationMetadata[],
+    workspacePath: string,
+    isProcessRunning: boolean,
+    logStatus: (...args: unknown[]) => void,
+  ): Promise<ClaudeCodeStatusInfo> {
+    // Sort conversations by last modified time to ensure we use the most recent
+    conversations.sort((a, b) => b.lastModified - a.lastModified)
+
+    // Check for any conversation waiting for input (highest priority)
+    const waitingInfo = await this.checkForWaitingInput(conversations)
+    if (waitingInfo.isWaiting) {
+      const timestamp = waitingInfo.lastMessageTime
+        ? new Date(waitingInfo.lastMessageTime).toLocaleTimeString()
+        : "unknown"
+      logStatus(`→ Status: WaitingForInput @ ${timestamp}`)
+      return {
+        status: ClaudeCodeStatus.WaitingForInput,
+        lastMessageTime: waitingInfo.lastMessageTime,
+        conversationCount: conversations.length,
       }
+    }
 
-      // Distinguish between process running (idle) vs not running
-      if (isProcessRunning) {
-        log(`Status: Running (process idle) for ${workspacePath}`)
-        return {
-          status: ClaudeCodeStatus.Running,
-          conversationCount: conversations.length,
-        }
-      } else {
-        log(`Status: NotRunning (no process) for ${workspacePath}`)
-        return {
-          status: ClaudeCodeStatus.NotRunning,
-          conversationCount: conversations.length,
-        }
+    // Check for active execution (recent file activity = Claude is working)
+    const executingInfo = await this.checkForExecuting(conversations)
+    if (executingInfo.isExecuting) {
+      const timestamp = executingInfo.lastMessageTime
+        ? new Date(executingInfo.lastMessageTime).toLocaleTimeString()
+        : "unknown"
+      logStatus(`→ Status: Executing @ ${timestamp}`)
+      return {
+        status: ClaudeCodeStatus.Executing,
+        lastMessageTime: executingInfo.lastMessageTime,
+        conversationCount: conversations.length,
+      }
+    }
+
+    // Check for recently finished (last message from assistant, < 30 min)
+    // This means Claude finished but user hasn't started a new task yet
+    const recentlyFinishedInfo = await this.checkForRecentlyFinished(
+      conversations,
+      workspacePath,
+    )
+    if (recentlyFinishedInfo.isRecentlyFinished) {
+      const timestamp = recentlyFinishedInfo.lastMessageTime
+        ? new Date(recentlyFinishedInfo.lastMessageTime).toLocaleTimeString()
+        : "unknown"
+      const minutesAgo = recentlyFinishedInfo.lastMessageTime
+        ? Math.round(
+            (Date.now() - recentlyFinishedInfo.lastMessageTime) / 1000 / 60,
+          )
+        : 0
+      logStatus(
+        `→ Status: RecentlyFinished @ ${timestamp} (${minutesAgo}min ago)`,
+      )
+      return {
+        status: ClaudeCodeStatus.RecentlyFinished,
+        lastMessageTime: recentlyFinishedInfo.lastMessageTime,
+        conversationCount: conversations.length,
+      }
+    }
+
+    // Distinguish between process running (idle) vs not running
+    if (isProcessRunning) {
+      log(`Status: Running (process idle) for ${workspacePath}`)
+      return {
+        status: ClaudeCodeStatus.Running,
+        conversationCount: conversations.length,
+      }
+    } else {
+      log(`Status: NotRunning (no process) for ${workspacePath}`)
+      return {
+        status: ClaudeCodeStatus.NotRunning,
+        conversationCount: conversations.length,
       }
-    } catch (error) {
-      console.error("Failed to get Claude Code status:", error)
-      return undefined
     }
   }
 
@@ -601,6 +855,7 @@ export class ClaudeCodeMonitor {
     const approximateMessageCount = lastChunk.split("\n").length
 
     return {
+      filePath,
       workingDirectory,
       lastModified,
       messageCount: approximateMessageCount,
@@ -608,6 +863,285 @@ export class ClaudeCodeMonitor {
     }
   }
 
+  /**
+   * Get the individual Claude sessions (conversations) of a workspace
+   * Sorted from most to least recent activity
+   */
+  async getSessions(workspacePath: string): Promise<ClaudeSessionInfo[]> {
+    const memberFolders = this.workspaceFolders.get(workspacePath)
+    if (memberFolders) {
+      const folderSessions = await Promise.all(
+        memberFolders.map((folder) => this.getSessions(folder)),
+      )
+      return folderSessions
+        .flat()
+        .sort((a, b) => b.lastModified - a.lastModified)
+    }
+
+    if (this.remoteMirrors.has(workspacePath)) {
+      const localPath = this.remoteMirrors.get(workspacePath)
+      return localPath ? this.getSessions(localPath) : []
+    }
+
+    try {
+      const isProcessRunning = this.isClaudeProcessRunning(workspacePath)
+      const conversations = [
+        ...(await this.getWorkspaceConversations(workspacePath)),
+      ].sort((a, b) => b.lastModified - a.lastModified)
+
+      return await Promise.all(
+        conversations.map(async (convo) => {
+          const details = await this.readSessionDetails(convo.filePath)
+          // Session statuses are only logged in debug mode
+          const status = await this.computeStatus(
+            [convo],
+            workspacePath,
+            isProcessRunning,
+            log,
+          )
+          return {
+            sessionId: path.basename(convo.filePath, ".jsonl"),
+            filePath: convo.filePath,
+            firstPrompt: details.firstPrompt,
+            lastModified: convo.lastModified,
+            messageCount: details.messageCount,
+            status,
+            usage: mergeUsage(
+              [...details.usage.values()].map((r) => ({ [r.model]: r.tokens })),
+            ),
+          }
+        }),
+      )
+    } catch (error) {
+      log(`Error getting sessions for ${workspacePath}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Get the token usage of a workspace for today and this week
+   * Unlike the status, this reads every conversation active this week
+   */
+  async getUsage(workspacePath: string): Promise<UsageSummary> {
+    const memberFolders = this.workspaceFolders.get(workspacePath)
+    if (memberFolders) {
+      const folderUsages = await Promise.all(
+        memberFolders.map((folder) => this.getUsage(folder)),
+      )
+      return {
+        today: mergeUsage(folderUsages.map((u) => u.today)),
+        week: mergeUsage(folderUsages.map((u) => u.week)),
+      }
+    }
+
+    if (this.remoteMirrors.has(workspacePath)) {
+      const localPath = this.remoteMirrors.get(workspacePath)
+      return localPath ? this.getUsage(localPath) : { today: {}, week: {} }
+    }
+
+    const now = new Date()
+    const todayStart = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate(),
+    ).getTime()
+    const weekStart = getWeekStart(now)
+    const today: ModelUsage = {}
+    const week: ModelUsage = {}
+
+    try {
+      const projectDir = path.join(
+        ClaudeCodeMonitor.CLAUDE_PROJECTS_DIR,
+        this.encodeWorkspacePath(workspacePath),
+      )
+      const entries = await fs.readdir(projectDir, { withFileTypes: true })
+
+      for (const entry of entries) {
+        if (!entry.isFile() || !entry.name.endsWith(".jsonl")) {
+          continue
+        }
+
+        const filePath = path.join(projectDir, entry.name)
+        const stats = await fs.stat(filePath)
+        if (stats.mtimeMs < weekStart) {
+          continue
+        }
+
+        const details = await this.readSessionDetails(filePath)
+        for (const record of details.usage.values()) {
+          if (record.timestamp >= weekStart) {
+            addUsage(week, record.model, record.tokens)
+          }
+          if (record.timestamp >= todayStart) {
+            addUsage(today, record.model, record.tokens)
+          }
+        }
+      }
+    } catch (error) {
+      // No conversations for this workspace
+      log(`Error getting usage for ${workspacePath}:`, error)
+    }
+
+    return { today, week }
+  }
+
+  /**
+   * Read the first prompt, message count and token usage of a conversation file
+   * Only the bytes appended since the last call are parsed, in chunks of
+   * READ_CHUNK_SIZE (a line split across chunks is carried over to the next)
+   */
+  private async readSessionDetails(filePath: string): Promise<SessionDetails> {
+    const stats = await fs.stat(filePath)
+
+    let details = this.sessionDetailsCache.get(filePath)
+    if (!details || stats.size < details.offset) {
+      // First read, or the file was rewritten
+      details = { offset: 0, messageCount: 0, usage: new Map() }
+    }
+
+    if (stats.size <= details.offset) {
+      return details
+    }
+
+    let { offset, messageCount, firstPrompt } = details
+    const chunk = Buffer.alloc(READ_CHUNK_SIZE)
+    let pending: Buffer[] = [] // Start of a line continued in the next chunks
+    let position = offset
+
+    const handle = await fs.open(filePath, "r")
+    try {
+      while (position < stats.size) {
+        const { bytesRead } = await handle.read(
+          chunk,
+          0,
+          Math.min(READ_CHUNK_SIZE, stats.size - position),
+          position,
+        )
+        if (bytesRead === 0) {
+          break
+        }
+        position += bytesRead
+
+        // Only parse complete lines, the last one may still be being written
+        const data = chunk.subarray(0, bytesRead)
+        const lastNewline = data.lastIndexOf(0x0a)
+        if (lastNewline === -1) {
+          pending.push(Buffer.from(data))
+          continue
+        }
+        const lines = Buffer.concat([...pending, data.subarray(0, lastNewline)])
+          .toString("utf-8")
+          .split("\n")
+        pending = [Buffer.from(data.subarray(lastNewline + 1))]
+        offset = position - (bytesRead - lastNewline - 1)
+
+        for (const line of lines) {
+          try {
+            const entry = JSON.parse(line)
+            if (
+              !entry.message ||
+              (entry.type !== "user" && entry.type !== "assistant")
+            ) {
+              continue
+            }
+
+            messageCount++
+
+            if (!firstPrompt && entry.type === "user" && !entry.isMeta) {
+              firstPrompt = this.extractPromptText(entry.message.content)
+            }
+
+            // Claude Code writes one entry per content block, all carrying the
+            // usage of the message, keep the latest one per message id
+            const usage = entry.message.usage
+            const model = entry.message.model
+            if (
+              entry.type === "assistant" &&
+              usage &&
+              typeof model === "string" &&
+              model !== "<synthetic>"
+            ) {
+              details.usage.set(entry.message.id || entry.uuid, {
+                timestamp: entry.timestamp
+                  ? new Date(entry.timestamp).getTime()
+                  : stats.mtimeMs,
+                model,
+                tokens: {
+                  inputTokens: usage.input_tokens || 0,
+                  outputTokens: usage.output_tokens || 0,
+                  cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+                  cacheReadTokens: usage.cache_read_input_tokens || 0,
+                },
+              })
+            }
+          } catch {
+            // Skip invalid lines
+            continue
+          }
+        }
+      }
+    } finally {
+      await handle.close()
+    }
+
+    const updated = {
+      offset,
+      messageCount,
+      firstPrompt,
+      usage: details.usage,
+    }
+    this.sessionDetailsCache.set(filePath, updated)
+    return updated
+  }
+
+  /**
+   * Evict the session details of conversation files that were deleted or not
+   * modified since the start of the week (older than the usage covers) nor
+   * within the last 24 hours (older than the sessions listed)
+   */
+  private async pruneSessionDetails(): Promise<void> {
+    const threshold = Math.min(
+      getWeekStart(new Date()),
+      Date.now() - this.FILE_AGE_THRESHOLD_MS,
+    )
+    await Promise.all(
+      [...this.sessionDetailsCache.keys()].map(async (filePath) => {
+        try {
+          const stats = await fs.stat(filePath)
+          if (stats.mtimeMs < threshold) {
+            this.sessionDetailsCache.delete(filePath)
+          }
+        } catch {
+          this.sessionDetailsCache.delete(filePath)
+        }
+      }),
+    )
+  }
+
+  /**
+   * Extract the text typed by the user from a message content
+   * Skips tool results and injected blocks (<command-name>, <system-reminder>...)
+   */
+  private extractPromptText(content: unknown): string | undefined {
+    const texts: string[] = []
+
+    if (typeof content === "string") {
+      texts.push(content)
+    } else if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block?.type === "text" && typeof block.text === "string") {
+          texts.push(block.text)
+        }
+      }
+    }
+
+    const prompt = texts
+      .map((text) => text.trim())
+      .find((text) => text.length > 0 && !text.startsWith("<"))
+
+    return prompt?.replace(/\s+/g, " ")
+  }
+
   /**
    * Check if any conversation is waiting for user input
    * This is indicated by the last message being from the assistant with a tool use or question
@@ -839,6 +1373,7 @@ export class ClaudeCodeMonitor {
         )
         // Remove from all caches
         this.conversationFileCache.delete(uri.fsPath)
+        this.sessionDetailsCache.delete(uri.fsPath)
         this.projectFilesCache.delete(projectDir)
         this.conversationCache.delete(workspacePath)
         onChange()
@@ -877,6 +1412,22 @@ export class ClaudeCodeMonitor {
    * This triggers file watchers in other windows to detect the state change
    */
   async updateLastAccessTime(workspacePath: string): Promise<void> {
+    const memberFolders = this.workspaceFolders.get(workspacePath)
+    if (memberFolders) {
+      await Promise.all(
+        memberFolders.map((folder) => this.updateLastAccessTime(folder)),
+      )
+      return
+    }
+
+    if (this.remoteMirrors.has(workspacePath)) {
+      const localPath = this.remoteMirrors.get(workspacePath)
+      if (localPath) {
+        await this.updateLastAccessTime(localPath)
+      }
+      return
+    }
+
     try {
       // Use cached conversation data if available
       const conversations = this.conversationCache.get(workspacePath)
@@ -0,0 +1,355 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { outputChannel } from "./extension"
+
+const CLAUDE_DIR = path.join(process.env.HOME || "", ".claude")
+
+// Claude Code user settings, where the hooks are installed
+const CLAUDE_SETTINGS_FILE = path.join(CLAUDE_DIR, "settings.json")
+
+// File the hooks append their events to
+const HOOK_EVENTS_FILE = path.join(
+  CLAUDE_DIR,
+  "workspaces-list",
+  "events.jsonl",
+)
+
+// Hook events installed, PostToolUse tells when a permission prompt was answered
+const HOOK_EVENTS = [
+  "UserPromptSubmit",
+  "PreToolUse",
+  "PostToolUse",
+  "Notification",
+  "Stop",
+]
+
+// Tool events take a matcher, "*" matches every tool
+const TOOL_EVENTS = new Set(["PreToolUse", "PostToolUse"])
+
+// The events file is rotated once it grows past this size
+const MAX_EVENTS_FILE_SIZE = 1024 * 1024
+
+// Rotated generations are removed once left untouched this long (readers
+// that haven't finished them by then, e.g. windows left unfocused, miss them)
+const GENERATION_MAX_AGE = 24 * 60 * 60 * 1000
+
+/**
+ * Shell command run by every hook
+ * Appends {"timestamp": <ms>, "payload": <fields>} to the events file, with
+ * only the fields read from the hook input (the hook input is JSON on stdin,
+ * tool inputs would quickly fill the file)
+ * perl tells the time in milliseconds where date can't (macOS)
+ */
+const HOOK_COMMAND = [
+  String.raw`mkdir -p "$HOME/.claude/workspaces-list"`,
+  String.raw`input=$(tr -d '\n')`,
+  String.raw`fields=$(printf '%s' "$input" | grep -oE '"(hook_event_name|transcript_path|notification_type|message)" *: *"([^"\\]|\\.)*"' | awk '!seen[substr($0, 1, index($0, ":"))]++' | paste -sd, -)`,
+  String.raw`now=$(perl -MTime::HiRes=time -e 'printf "%d", time * 1000' 2>/dev/null || echo "$(date +%s)000")`,
+  String.raw`printf '{"timestamp":%s,"payload":{%s}}\n' "$now" "$fields" >> "$HOME/.claude/workspaces-list/events.jsonl"`,
+].join(" && ")
+
+interface HookCommand {
+  type: string
+  command: string
+}
+
+interface HookMatcher {
+  matcher?: string
+  hooks: HookCommand[]
+}
+
+export interface HookState {
+  event: string // Last hook event of the session (Stop, Notification...)
+  timestamp: number
+}
+
+/**
+ * Check if a hook matcher entry was installed by this extension
+ */
+function isOwnHook(entry: HookMatcher): boolean {
+  return (
+    Array.isArray(entry?.hooks) &&
+    entry.hooks.some((h) => h.command?.includes("workspaces-list/events.jsonl"))
+  )
+}
+
+/**
+ * Read the Claude Code user settings
+ */
+async function readClaudeSettings(): Promise<Record<string, unknown>> {
+  try {
+    const content = await fs.readFile(CLAUDE_SETTINGS_FILE, "utf-8")
+    return JSON.parse(content)
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {}
+    }
+    // Don't overwrite a settings file we can't parse
+    throw new Error(`Could not read ${CLAUDE_SETTINGS_FILE}: ${error}`)
+  }
+}
+
+/**
+ * Write the hooks of the Claude Code user settings
+ * Our entries are always removed first, then added back when install is true
+ */
+async function updateClaudeHooks(install: boolean): Promise<void> {
+  const settings = await readClaudeSettings()
+  const hooks = (settings.hooks || {}) as Record<string, HookMatcher[]>
+
+  for (const event of HOOK_EVENTS) {
+    const entries = (hooks[event] || []).filter((entry) => !isOwnHook(entry))
+    if (install) {
+      entries.push({
+        ...(TOOL_EVENTS.has(event) ? { matcher: "*" } : {}),
+        hooks: [{ type: "command", command: HOOK_COMMAND }],
+      })
+    }
+
+    if (entries.length > 0) {
+      hooks[event] = entries
+    } else {
+      delete hooks[event]
+    }
+  }
+
+  if (Object.keys(hooks).length > 0) {
+    settings.hooks = hooks
+  } else {
+    delete settings.hooks
+  }
+
+  // Written to a temporary file then renamed over the settings, so Claude
+  // never reads a partially written file
+  await fs.mkdir(CLAUDE_DIR, { recursive: true })
+  const tempFile = `${CLAUDE_SETTINGS_FILE}.${process.pid}.tmp`
+  try {
+    await fs.writeFile(tempFile, JSON.stringify(settings, null, 2) + "\n")
+    await fs.rename(tempFile, CLAUDE_SETTINGS_FILE)
+  } catch (error) {
+    await fs.rm(tempFile, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Install the status hooks in ~/.claude/settings.json
+ */
+export async function installClaudeHooks(): Promise<void> {
+  await updateClaudeHooks(true)
+  outputChannel.appendLine(
+    `[WorkspacesList] Installed Claude Code hooks in ${CLAUDE_SETTINGS_FILE}`,
+  )
+}
+
+/**
+ * Remove the status hooks from ~/.claude/settings.json
+ */
+export async function uninstallClaudeHooks(): Promise<void> {
+  await updateClaudeHooks(false)
+  outputChannel.appendLine(
+    `[WorkspacesList] Removed Claude Code hooks from ${CLAUDE_SETTINGS_FILE}`,
+  )
+}
+
+/**
+ * Check if the current status hooks are installed for every event
+ * Hooks installed by an older version, with another command, aren't
+ */
+export async function areClaudeHooksInstalled(): Promise<boolean> {
+  try {
+    const settings = await readClaudeSettings()
+    const hooks = (settings.hooks || {}) as Record<string, HookMatcher[]>
+    return HOOK_EVENTS.every((event) =>
+      (hooks[event] || []).some((entry) =>
+        entry.hooks?.some((h) => h.command === HOOK_COMMAND),
+      ),
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Reads the events appended by the hooks and keeps the last event of each
+ * conversation (keyed by transcript path)
+ * The file is read incrementally, concurrent refreshes share the same read
+ * Every window reads the same file: once it grows too large it is renamed to
+ * a new generation (events.<ms>.jsonl), and readers finish the generation
+ * they were reading before moving on to the new file
+ */
+export class ClaudeHookEvents {
+  private states = new Map<string, HookState>()
+  private inode: number | undefined // Events file being read
+  private offset = 0
+  private pendingRefresh: Promise<void> | undefined
+
+  /**
+   * Read the events appended since the last refresh
+   */
+  refresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.readNewEvents().finally(() => {
+        this.pendingRefresh = undefined
+      })
+    }
+    return this.pendingRefresh
+  }
+
+  /**
+   * Get the last hook event of a conversation
+   */
+  getState(transcriptPath: string): HookState | undefined {
+    return this.states.get(transcriptPath)
+  }
+
+  private async readNewEvents(): Promise<void> {
+    let inode: number
+    try {
+      inode = (await fs.stat(HOOK_EVENTS_FILE)).ino
+    } catch {
+      // No event recorded yet
+      return
+    }
+
+    if (this.inode !== undefined && inode !== this.inode) {
+      // Rotated, finish the previous generation first
+      const generation = await this.findGeneration(this.inode)
+      if (generation) {
+        await this.readEvents(generation, this.offset)
+      }
+      this.offset = 0
+    }
+    this.inode = inode
+    this.offset = await this.readEvents(HOOK_EVENTS_FILE, this.offset)
+
+    if (this.offset > MAX_EVENTS_FILE_SIZE) {
+      await this.rotate()
+    }
+  }
+
+  /**
+   * Read the complete lines of an events file from an offset
+   * Returns the offset to continue from
+   */
+  private async readEvents(filePath: string, offset: number): Promise<number> {
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(filePath, "r")
+    } catch {
+      // Removed since
+      return offset
+    }
+
+    let buffer: Buffer
+    try {
+      const { size } = await handle.stat()
+      if (size < offset) {
+        // Not the file that was read (reused inode), read it all
+        offset = 0
+      }
+      buffer = Buffer.alloc(size - offset)
+      await handle.read(buffer, 0, buffer.length, offset)
+    } finally {
+      await handle.close()
+    }
+
+    // Only parse complete lines, a hook may still be writing the last one
+    const lastNewline = buffer.lastIndexOf(0x0a)
+    if (lastNewline === -1) {
+      return offset
+    }
+
+    const lines = buffer.subarray(0, lastNewline).toString("utf-8").split("\n")
+    for (const line of lines) {
+      try {
+        const { timestamp, payload } = JSON.parse(line)
+        this.applyEvent(timestamp, payload)
+      } catch {
+        // Skip invalid lines
+        continue
+      }
+    }
+    return offset + lastNewline + 1
+  }
+
+  private applyEvent(
+    timestamp: number,
+    payload: Record<string, string> | undefined,
+  ): void {
+    if (
+      typeof payload?.transcript_path !== "string" ||
+      typeof payload.hook_event_name !== "string"
+    ) {
+      return
+    }
+    // Claude Code also notifies when a finished session sits idle,
+    // the session stays finished rather than waiting
+    const previous = this.states.get(payload.transcript_path)
+    if (
+      payload.hook_event_name === "Notification" &&
+      previous?.event === "Stop" &&
+      payload.notification_type !== "permission_prompt" &&
+      !/permission/i.test(payload.message || "")
+    ) {
+      return
+    }
+
+    this.states.set(payload.transcript_path, {
+      event: payload.hook_event_name,
+      timestamp,
+    })
+  }
+
+  /**
+   * Find the generation file an events file was renamed to
+   */
+  private async findGeneration(inode: number): Promise<string | undefined> {
+    for (const generation of await this.listGenerations()) {
+      const stats = await fs.stat(generation).catch(() => undefined)
+      if (stats?.ino === inode) {
+        return generation
+      }
+    }
+    return undefined
+  }
+
+  private async listGenerations(): Promise<string[]> {
+    const eventsDir = path.dirname(HOOK_EVENTS_FILE)
+    try {
+      return (await fs.readdir(eventsDir))
+        .filter((file) => /^events\.\d+\.jsonl$/.test(file))
+        .map((file) => path.join(eventsDir, file))
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Start a new events file and remove the generations no reader needs
+   * anymore
+   * Hooks append with >>, an event written while renaming ends up in the
+   * renamed generation, which readers still finish
+   */
+  private async rotate(): Promise<void> {
+    try {
+      // Another window may have rotated it already
+      if ((await fs.stat(HOOK_EVENTS_FILE)).ino !== this.inode) {
+        return
+      }
+      await fs.rename(
+        HOOK_EVENTS_FILE,
+        path.join(path.dirname(HOOK_EVENTS_FILE), `events.${Date.now()}.jsonl`),
+      )
+    } catch {
+      return
+    }
+
+    for (const generation of await this.listGenerations()) {
+      const stats = await fs.stat(generation).catch(() => undefined)
+      if (stats && Date.now() - stats.mtimeMs > GENERATION_MAX_AGE) {
+        await fs.rm(generation, { force: true })
+      }
+    }
+  }
+}
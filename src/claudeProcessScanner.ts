@@ -0,0 +1,127 @@
+import { exec } from "child_process"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { promisify } from "util"
+import { listPids, readCmdline, readCwd } from "./procfs"
+
+const execAsync = promisify(exec)
+
+// Runtimes the npm distribution of Claude Code runs under
+const SCRIPT_RUNTIMES = new Set(["node", "nodejs", "bun"])
+
+/**
+ * Check if an argument vector is a Claude Code CLI invocation
+ * - Native install / npm bin shim: argv[0] is "claude"
+ * - npm package run directly: node .../@anthropic-ai/claude-code/cli.js
+ * The desktop app ("Claude", "Claude Helper", Electron --type= children) and
+ * unrelated processes that merely mention "claude" in their arguments don't match
+ */
+export function isClaudeCodeCommand(argv: string[]): boolean {
+  if (argv.length === 0) {
+    return false
+  }
+
+  if (argv.some((arg) => arg.startsWith("--type="))) {
+    return false
+  }
+
+  const executable = path.basename(argv[0])
+  if (executable === "claude") {
+    return true
+  }
+
+  if (SCRIPT_RUNTIMES.has(executable) && argv.length > 1) {
+    // Skip runtime flags (e.g. node --no-warnings cli.js)
+    const script = argv.slice(1).find((arg) => !arg.startsWith("-"))
+    if (!script) {
+      return false
+    }
+    return (
+      /@anthropic-ai\/claude-code\/cli\.m?js$/.test(script) ||
+      path.basename(script) === "claude"
+    )
+  }
+
+  return false
+}
+
+/**
+ * Take the path at the start of words split on spaces, rejoining the words of
+ * an absolute path containing spaces (the longest prefix naming a file)
+ */
+async function takePath(words: string[]): Promise<[string, string[]]> {
+  for (let i = words.length; i > 1; i--) {
+    const candidate = words.slice(0, i).join(" ")
+    if (
+      path.isAbsolute(candidate) &&
+      (await fs.stat(candidate).then(
+        (stats) => stats.isFile(),
+        () => false,
+      ))
+    ) {
+      return [candidate, words.slice(i)]
+    }
+  }
+  return [words[0], words.slice(1)]
+}
+
+/**
+ * Rebuild the argument vector of a ps command line
+ * ps joins the arguments with spaces, so the executable and the script run by
+ * a runtime are matched against existing files to keep paths containing
+ * spaces (e.g. /Users/Jane Doe/.local/bin/claude) in one argument
+ */
+async function parseCommandLine(command: string): Promise<string[]> {
+  const [executable, args] = await takePath(command.split(/ +/))
+  const scriptIndex = args.findIndex((arg) => !arg.startsWith("-"))
+  if (!SCRIPT_RUNTIMES.has(path.basename(executable)) || scriptIndex < 0) {
+    return [executable, ...args]
+  }
+  const [script, scriptArgs] = await takePath(args.slice(scriptIndex))
+  return [executable, ...args.slice(0, scriptIndex), script, ...scriptArgs]
+}
+
+/**
+ * Find the PIDs of running Claude Code CLI processes
+ * Linux reads /proc directly, macOS falls back to ps
+ */
+export async function findClaudeCodePids(): Promise<string[]> {
+  if (process.platform === "linux") {
+    const pids = await listPids()
+    const matches = await Promise.all(
+      pids.map(async (pid) => isClaudeCodeCommand(await readCmdline(pid))),
+    )
+    return pids.filter((_, i) => matches[i])
+  }
+
+  const { stdout } = await execAsync("ps -axo pid=,command=")
+  const processes = stdout.split("\n").flatMap((line) => {
+    const match = line.trim().match(/^(\d+)\s+(.*)$/)
+    // Only commands mentioning claude can match, skip parsing the others
+    return match && match[2].includes("claude")
+      ? [{ pid: match[1], command: match[2] }]
+      : []
+  })
+
+  const matches = await Promise.all(
+    processes.map(async ({ command }) =>
+      isClaudeCodeCommand(await parseCommandLine(command)),
+    ),
+  )
+  return processes.filter((_, i) => matches[i]).map(({ pid }) => pid)
+}
+
+/**
+ * Get the working directory of a process
+ * Linux reads /proc/<pid>/cwd, macOS falls back to lsof
+ */
+export async function getProcessCwd(pid: string): Promise<string | null> {
+  if (process.platform === "linux") {
+    return readCwd(pid)
+  }
+
+  // -Fn prints the path alone on an "n" line, so paths with spaces stay whole
+  const { stdout } = await execAsync(`lsof -a -p ${pid} -d cwd -Fn 2>/dev/null`)
+  const nameLine = stdout.split("\n").find((line) => line.startsWith("n"))
+  return nameLine ? nameLine.slice(1) : null
+}
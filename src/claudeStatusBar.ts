@@ -0,0 +1,157 @@
+import * as vscode from "vscode"
+import { ClaudeCodeDecorator } from "./claudeCodeDecorator"
+import { ClaudeCodeStatus, getStatusUrgency } from "./types"
+import { WorkspaceItem, WorkspacesProvider } from "./workspacesProvider"
+
+// Statuses summarized in the status bar, with their badge and description
+const SUMMARIZED_STATUSES: Array<{
+  status: ClaudeCodeStatus
+  badge: string
+  description: string
+}> = [
+  {
+    status: ClaudeCodeStatus.WaitingForInput,
+    badge: "⚠",
+    description: "waiting for input",
+  },
+  { status: ClaudeCodeStatus.Executing, badge: "▶", description: "executing" },
+  {
+    status: ClaudeCodeStatus.RecentlyFinished,
+    badge: "◉",
+    description: "recently finished",
+  },
+  { status: ClaudeCodeStatus.Running, badge: "●", description: "idle" },
+]
+
+// Statuses of the workspaces listed by the attention quick pick
+const ATTENTION_STATUSES = [
+  ClaudeCodeStatus.WaitingForInput,
+  ClaudeCodeStatus.Executing,
+  ClaudeCodeStatus.RecentlyFinished,
+]
+
+/**
+ * Status bar item summarizing the Claude status of all workspaces
+ * e.g. "Claude ⚠ 1 ▶ 2 ◉ 1"
+ */
+export class ClaudeStatusBar implements vscode.Disposable {
+  static readonly command = "workspacesList.showAttention"
+
+  private item: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private decorator: ClaudeCodeDecorator,
+    private workspacesProvider: WorkspacesProvider,
+  ) {
+    this.item = vscode.window.createStatusBarItem(
+      "workspacesList.claudeStatus",
+      vscode.StatusBarAlignment.Left,
+    )
+    this.item.name = "Claude Code Status"
+    this.item.command = ClaudeStatusBar.command
+
+    this.disposables.push(
+      this.item,
+      vscode.commands.registerCommand(ClaudeStatusBar.command, () =>
+        this.showAttentionPick(),
+      ),
+      // Statuses change through decorations, workspaces through tree refreshes
+      decorator.onDidChangeFileDecorations(() => this.update()),
+      workspacesProvider.onDidChangeTreeData(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("workspacesList.statusBar")) {
+          this.update()
+        }
+      }),
+    )
+
+    this.update()
+  }
+
+  /**
+   * Get the workspaces with their displayed status
+   */
+  private getStatuses(): Array<{
+    item: WorkspaceItem
+    status: ClaudeCodeStatus | undefined
+  }> {
+    return this.workspacesProvider.getWorkspaceItems().map((item) => ({
+      item,
+      status: this.decorator.getDisplayedStatus(item.path),
+    }))
+  }
+
+  /**
+   * Refresh the text, tooltip and colour of the item
+   */
+  private update(): void {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    if (!config.get<boolean>("statusBar.enabled", true)) {
+      this.item.hide()
+      return
+    }
+
+    const statuses = this.getStatuses()
+    const counts = SUMMARIZED_STATUSES.map((s) => ({
+      ...s,
+      count: statuses.filter((w) => w.status === s.status).length,
+    })).filter((s) => s.count > 0)
+
+    const summary = counts.map((s) => `${s.badge} ${s.count}`).join(" ")
+    this.item.text = summary ? `Claude ${summary}` : "Claude ○"
+    this.item.tooltip =
+      counts.length > 0
+        ? counts.map((s) => `${s.count} ${s.description}`).join("\n")
+        : "No active Claude Code session"
+
+    const isWaiting = counts.some(
+      (s) => s.status === ClaudeCodeStatus.WaitingForInput,
+    )
+    this.item.backgroundColor =
+      isWaiting && config.get<boolean>("statusBar.highlightWaiting", true)
+        ? new vscode.ThemeColor("statusBarItem.warningBackground")
+        : undefined
+
+    this.item.show()
+  }
+
+  /**
+   * Pick a workspace needing attention, most urgent first, and focus it
+   */
+  private async showAttentionPick(): Promise<void> {
+    const workspaces = this.getStatuses()
+      .filter(
+        (w) => w.status !== undefined && ATTENTION_STATUSES.includes(w.status),
+      )
+      .sort((a, b) => getStatusUrgency(a.status) - getStatusUrgency(b.status))
+
+    if (workspaces.length === 0) {
+      vscode.window.showInformationMessage("No workspace needs attention")
+      return
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      workspaces.map(({ item, status }) => {
+        const summarized = SUMMARIZED_STATUSES.find((s) => s.status === status)
+        return {
+          label: `${summarized?.badge} ${item.label}`,
+          description: summarized?.description,
+          detail: item.windowInfo.remote?.remotePath || item.path,
+          item,
+        }
+      }),
+      { placeHolder: "Workspaces needing attention" },
+    )
+
+    if (picked) {
+      await this.workspacesProvider.focusWorkspace(picked.item)
+    }
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
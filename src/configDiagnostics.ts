@@ -0,0 +1,319 @@
+import codiconMapping from "@vscode/codicons/src/template/mapping.json"
+import * as fs from "fs/promises"
+import { Node, parseTree, ParseError, printParseErrorCode } from "jsonc-parser"
+import * as path from "path"
+import * as vscode from "vscode"
+import { outputChannel } from "./extension"
+import { getIconKind, resolveIconFile } from "./iconRenderer"
+
+const CONFIG_FILENAME = ".workspaces-list.json"
+
+// Codicon names known to the bundled codicons (codepoint -> names)
+export const CODICON_NAMES = new Set(Object.values(codiconMapping).flat())
+
+// CSS named colors
+const CSS_COLOR_NAMES = new Set(
+  `aliceblue antiquewhite aqua aquamarine azure beige bisque black
+  blanchedalmond blue blueviolet brown burlywood cadetblue chartreuse
+  chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan
+  darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta
+  darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen
+  darkslateblue darkslategray darkslategrey darkturquoise darkviolet deeppink
+  deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite forestgreen
+  fuchsia gainsboro ghostwhite gold goldenrod gray green greenyellow grey
+  honeydew hotpink indianred indigo ivory khaki lavender lavenderblush
+  lawngreen lemonchiffon lightblue lightcoral lightcyan lightgoldenrodyellow
+  lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen
+  lightskyblue lightslategray lightslategrey lightsteelblue lightyellow lime
+  limegreen linen magenta maroon mediumaquamarine mediumblue mediumorchid
+  mediumpurple mediumseagreen mediumslateblue mediumspringgreen
+  mediumturquoise mediumvioletred midnightblue mintcream mistyrose moccasin
+  navajowhite navy oldlace olive olivedrab orange orangered orchid
+  palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff
+  peru pink plum powderblue purple rebeccapurple red rosybrown royalblue
+  saddlebrown salmon sandybrown seagreen seashell sienna silver skyblue
+  slateblue slategray slategrey snow springgreen steelblue tan teal thistle
+  tomato turquoise violet wheat white whitesmoke yellow yellowgreen
+  transparent currentcolor`.split(/\s+/),
+)
+
+interface SchemaProperty {
+  type: "string" | "array"
+  items?: { type: "string" }
+}
+
+interface ConfigSchema {
+  properties: Record<string, SchemaProperty>
+  additionalProperties?: boolean
+}
+
+interface ConfigProblem {
+  message: string
+  severity: vscode.DiagnosticSeverity
+  node?: Node // Whole file when undefined
+}
+
+/**
+ * Check if a string is a CSS color (hex, functional notation or named)
+ */
+export function isCssColor(color: string): boolean {
+  const value = color.trim().toLowerCase()
+  return (
+    /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(value) ||
+    /^(rgb|rgba|hsl|hsla|hwb|lab|lch|oklab|oklch)\(.*\)$/.test(value) ||
+    CSS_COLOR_NAMES.has(value)
+  )
+}
+
+/**
+ * Get the type of a JSON node as named by JSON schema
+ */
+function getSchemaType(node: Node): string {
+  return node.type === "number" && Number.isInteger(node.value)
+    ? "integer"
+    : node.type
+}
+
+/**
+ * Validates .workspaces-list.json files against workspaces-list.schema.json,
+ * plus what the schema can't tell (colors, codicons, icon files), and reports
+ * the problems as diagnostics on the files
+ * Open files are validated as they are edited
+ */
+export class ConfigDiagnostics implements vscode.Disposable {
+  private collection =
+    vscode.languages.createDiagnosticCollection("workspacesList")
+  private schema: ConfigSchema | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidChangeTextDocument((e) =>
+        this.checkDocument(e.document),
+      ),
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.checkDocument(document),
+      ),
+    )
+  }
+
+  /**
+   * Check the config file of a workspace folder
+   * Returns the number of problems found (0 without a config file)
+   */
+  async check(folderPath: string): Promise<number> {
+    const configPath = path.join(folderPath, CONFIG_FILENAME)
+    const uri = vscode.Uri.file(configPath)
+
+    // Unsaved edits are checked as they are made
+    const document = vscode.workspace.textDocuments.find(
+      (d) => d.uri.fsPath === configPath,
+    )
+    let content: string
+    try {
+      content = document?.getText() ?? (await fs.readFile(configPath, "utf-8"))
+    } catch {
+      // No config file
+      this.collection.delete(uri)
+      return 0
+    }
+
+    return this.report(uri, content)
+  }
+
+  private checkDocument(document: vscode.TextDocument): void {
+    if (
+      document.uri.scheme === "file" &&
+      path.basename(document.uri.fsPath) === CONFIG_FILENAME
+    ) {
+      void this.report(document.uri, document.getText())
+    }
+  }
+
+  private async report(uri: vscode.Uri, content: string): Promise<number> {
+    const problems = await this.validate(content, path.dirname(uri.fsPath))
+    const lineStarts = [0]
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === "\n") {
+        lineStarts.push(i + 1)
+      }
+    }
+    const toPosition = (offset: number) => {
+      let line = lineStarts.length - 1
+      while (lineStarts[line] > offset) {
+        line--
+      }
+      return new vscode.Position(line, offset - lineStarts[line])
+    }
+
+    this.collection.set(
+      uri,
+      problems.map((problem) => {
+        const range = problem.node
+          ? new vscode.Range(
+              toPosition(problem.node.offset),
+              toPosition(problem.node.offset + problem.node.length),
+            )
+          : new vscode.Range(0, 0, 0, 0)
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          problem.message,
+          problem.severity,
+        )
+        diagnostic.source = "Workspaces List"
+        return diagnostic
+      }),
+    )
+    return problems.length
+  }
+
+  private async validate(
+    content: string,
+    folderPath: string,
+  ): Promise<ConfigProblem[]> {
+    const errors: ParseError[] = []
+    // The extension reads the file as strict JSON
+    const root = parseTree(content, errors, {
+      disallowComments: true,
+      allowTrailingComma: false,
+    })
+
+    const problems: ConfigProblem[] = errors.map((error) => ({
+      message: `Invalid JSON: ${printParseErrorCode(error.error)}`,
+      severity: vscode.DiagnosticSeverity.Error,
+      node: { type: "null", offset: error.offset, length: error.length },
+    }))
+    if (errors.length > 0 || !root) {
+      return problems
+    }
+
+    if (root.type !== "object") {
+      problems.push({
+        message: "The configuration must be an object",
+        severity: vscode.DiagnosticSeverity.Error,
+        node: root,
+      })
+      return problems
+    }
+
+    const schema = await this.getSchema()
+    for (const property of root.children || []) {
+      const [keyNode, valueNode] = property.children || []
+      if (!keyNode || !valueNode) {
+        continue
+      }
+      const key = String(keyNode.value)
+      const propertySchema = schema?.properties[key]
+
+      if (!propertySchema) {
+        if (schema?.additionalProperties === false) {
+          problems.push({
+            message: `Unknown property "${key}"`,
+            severity: vscode.DiagnosticSeverity.Warning,
+            node: keyNode,
+          })
+        }
+        continue
+      }
+
+      if (getSchemaType(valueNode) !== propertySchema.type) {
+        problems.push({
+          message: `"${key}" must be ${propertySchema.type === "array" ? "an array" : `a ${propertySchema.type}`}`,
+          severity: vscode.DiagnosticSeverity.Error,
+          node: valueNode,
+        })
+        continue
+      }
+
+      const itemType = propertySchema.items?.type
+      for (const item of itemType ? valueNode.children || [] : []) {
+        if (getSchemaType(item) !== itemType) {
+          problems.push({
+            message: `"${key}" items must be ${itemType}s`,
+            severity: vscode.DiagnosticSeverity.Error,
+            node: item,
+          })
+        }
+      }
+
+      if (key === "color" && !isCssColor(valueNode.value)) {
+        problems.push({
+          message: `"${valueNode.value}" is not a CSS color`,
+          severity: vscode.DiagnosticSeverity.Warning,
+          node: valueNode,
+        })
+      }
+
+      if (key === "icon") {
+        const problem = await this.validateIcon(valueNode.value, folderPath)
+        if (problem) {
+          problems.push({ ...problem, node: valueNode })
+        }
+      }
+    }
+
+    return problems
+  }
+
+  private async validateIcon(
+    icon: string,
+    folderPath: string,
+  ): Promise<Omit<ConfigProblem, "node"> | undefined> {
+    switch (getIconKind(icon)) {
+      case "file": {
+        const iconPath = resolveIconFile(icon, folderPath)
+        try {
+          await fs.access(iconPath)
+          return undefined
+        } catch {
+          return {
+            message: `Icon file not found: ${iconPath}`,
+            severity: vscode.DiagnosticSeverity.Error,
+          }
+        }
+      }
+
+      case "codicon": {
+        // Codicons may have a modifier (e.g. "sync~spin")
+        const name = icon.split("~")[0]
+        if (CODICON_NAMES.has(name)) {
+          return undefined
+        }
+        return {
+          message: `Unknown codicon "${name}" (icons can also be an emoji, SVG content, a ./file path or a URL)`,
+          severity: vscode.DiagnosticSeverity.Warning,
+        }
+      }
+
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Read workspaces-list.schema.json, shipped with the extension
+   */
+  private async getSchema(): Promise<ConfigSchema | undefined> {
+    if (!this.schema) {
+      try {
+        const schemaPath = path.join(
+          this.context.extensionPath,
+          "workspaces-list.schema.json",
+        )
+        this.schema = JSON.parse(await fs.readFile(schemaPath, "utf-8"))
+      } catch (error) {
+        outputChannel.appendLine(
+          `[WorkspacesList] Failed to read the config schema: ${error}`,
+        )
+      }
+    }
+    return this.schema
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
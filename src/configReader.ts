@@ -23,14 +23,84 @@ export interface WorkspaceConfig {
    * Optional display name override
    */
   displayName?: string
+
+  /**
+   * Group the workspace is listed under when grouping by config
+   */
+  group?: string
+
+  /**
+   * Tags matched by the filter of the Workspaces view (e.g. "tag:client")
+   */
+  tags?: string[]
+}
+
+// User-level overrides, mapping path globs to configs (same format as the
+// workspacesList.workspaceOverrides setting)
+// Named apart from .workspaces-list.json so a workspace opened at the home
+// folder doesn't read the overrides as its own config
+export const USER_CONFIG_PATH = path.join(
+  process.env.HOME || "",
+  ".config",
+  "workspaces-list",
+  "overrides.json",
+)
+
+/**
+ * Expand ~ to the home directory
+ */
+function expandHome(filePath: string): string {
+  return filePath.startsWith("~")
+    ? path.join(process.env.HOME || "", filePath.slice(1))
+    : filePath
+}
+
+/**
+ * Convert a path glob to a regular expression
+ * "**" matches across directories, "*" and "?" within a path segment,
+ * a backslash matches the next character literally
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = ""
+  const expanded = expandHome(glob).replace(/\/+$/, "")
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i]
+    if (char === "\\" && i + 1 < expanded.length) {
+      i++
+      pattern += expanded[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    } else if (char === "*" && expanded[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      const slash = expanded[i + 2] === "/"
+      pattern += slash ? "(?:.*/)?" : ".*"
+      i += slash ? 2 : 1
+    } else if (char === "*") {
+      pattern += "[^/]*"
+    } else if (char === "?") {
+      pattern += "[^/]"
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Escape the glob characters of a path, so it only matches itself
+ */
+export function escapeGlob(filePath: string): string {
+  return filePath.replace(/[*?\\]/g, "\\$&")
 }
 
 export class ConfigReader {
   private static readonly CONFIG_FILENAME = ".workspaces-list.json"
   private configCache = new Map<string, WorkspaceConfig | null>()
+  private userOverrides: Record<string, unknown> | undefined // ~/.config/workspaces-list/overrides.json, read once
 
   /**
-   * Read workspace configuration from the workspace root
+   * Read workspace configuration from the workspace root, merged with the
+   * user overrides matching the workspace
+   * Precedence (last wins): the workspace's .workspaces-list.json,
+   * the user overrides file, then the workspacesList.workspaceOverrides setting
    */
   async readConfig(workspacePath: string): Promise<WorkspaceConfig | null> {
     // Check cache first
@@ -38,12 +108,27 @@ export class ConfigReader {
       return this.configCache.get(workspacePath) || null
     }
 
-    try {
-      // Expand ~ to home directory
-      const expandedPath = workspacePath.startsWith("~")
-        ? path.join(process.env.HOME || "", workspacePath.slice(1))
-        : workspacePath
+    // Expand ~ to home directory
+    const expandedPath = expandHome(workspacePath)
 
+    const fileConfig = await this.readConfigFile(expandedPath)
+    const overrides = await this.getOverrides(expandedPath)
+    const config =
+      fileConfig || overrides.length > 0
+        ? Object.assign({}, fileConfig, ...overrides)
+        : null
+
+    this.configCache.set(workspacePath, config)
+    return config
+  }
+
+  /**
+   * Read the .workspaces-list.json file of a workspace
+   */
+  private async readConfigFile(
+    expandedPath: string,
+  ): Promise<WorkspaceConfig | null> {
+    try {
       const configPath = path.join(expandedPath, ConfigReader.CONFIG_FILENAME)
 
       // Check if file exists
@@ -51,7 +136,6 @@ export class ConfigReader {
         await fs.access(configPath)
       } catch {
         // File doesn't exist
-        this.configCache.set(workspacePath, null)
         return null
       }
 
@@ -60,17 +144,47 @@ export class ConfigReader {
       const config = JSON.parse(content) as WorkspaceConfig
 
       // Validate config
-      const validatedConfig = this.validateConfig(config)
-
-      this.configCache.set(workspacePath, validatedConfig)
-      return validatedConfig
+      return this.validateConfig(config)
     } catch (error) {
-      console.error(`Failed to read config for ${workspacePath}:`, error)
-      this.configCache.set(workspacePath, null)
+      console.error(`Failed to read config for ${expandedPath}:`, error)
       return null
     }
   }
 
+  /**
+   * Get the user overrides whose glob matches a workspace, in precedence
+   * order: the user overrides file before the setting, and within each the
+   * more specific (longer) globs last
+   */
+  private async getOverrides(expandedPath: string): Promise<WorkspaceConfig[]> {
+    if (this.userOverrides === undefined) {
+      this.userOverrides = await this.readUserOverrides()
+    }
+    const settingOverrides = vscode.workspace
+      .getConfiguration("workspacesList")
+      .get<Record<string, unknown>>("workspaceOverrides", {})
+
+    return [this.userOverrides, settingOverrides].flatMap((overrides) =>
+      Object.keys(overrides)
+        .filter((glob) => globToRegExp(glob).test(expandedPath))
+        .sort((a, b) => a.length - b.length)
+        .map((glob) => this.validateConfig(overrides[glob])),
+    )
+  }
+
+  private async readUserOverrides(): Promise<Record<string, unknown>> {
+    try {
+      const content = await fs.readFile(USER_CONFIG_PATH, "utf-8")
+      const overrides = JSON.parse(content)
+      return overrides && typeof overrides === "object" ? overrides : {}
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${USER_CONFIG_PATH}:`, error)
+      }
+      return {}
+    }
+  }
+
   /**
    * Validate and sanitize config
    */
@@ -93,6 +207,18 @@ export class ConfigReader {
       validated.displayName = config.displayName
     }
 
+    if ("group" in config && typeof config.group === "string") {
+      validated.group = config.group
+    }
+
+    if (
+      "tags" in config &&
+      Array.isArray(config.tags) &&
+      config.tags.every((tag) => typeof tag === "string")
+    ) {
+      validated.tags = config.tags
+    }
+
     return validated
   }
 
@@ -101,6 +227,37 @@ export class ConfigReader {
    */
   clearCache(): void {
     this.configCache.clear()
+    this.userOverrides = undefined
+  }
+
+  /**
+   * Watch the user overrides (~/.config/workspaces-list/overrides.json and the
+   * workspacesList.workspaceOverrides setting) for changes
+   * Any workspace may be affected, the whole cache is cleared
+   */
+  watchOverrides(onChange: () => void): vscode.Disposable {
+    const changed = () => {
+      this.clearCache()
+      onChange()
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(
+        vscode.Uri.file(path.dirname(USER_CONFIG_PATH)),
+        path.basename(USER_CONFIG_PATH),
+      ),
+    )
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidChange(changed),
+      watcher.onDidCreate(changed),
+      watcher.onDidDelete(changed),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("workspacesList.workspaceOverrides")) {
+          changed()
+        }
+      }),
+    )
   }
 
   /**
@@ -115,9 +272,13 @@ export class ConfigReader {
         ? path.join(process.env.HOME || "", workspacePath.slice(1))
         : workspacePath
 
-      const configPath = path.join(expandedPath, ConfigReader.CONFIG_FILENAME)
-
-      const watcher = vscode.workspace.createFileSystemWatcher(configPath)
+      // A relative pattern also watches folders outside of this window's workspace
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.file(expandedPath),
+          ConfigReader.CONFIG_FILENAME,
+        ),
+      )
 
       watcher.onDidChange(() => {
         this.configCache.delete(workspacePath)
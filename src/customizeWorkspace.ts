@@ -0,0 +1,309 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { CODICON_NAMES, isCssColor } from "./configDiagnostics"
+import { escapeGlob, USER_CONFIG_PATH, WorkspaceConfig } from "./configReader"
+
+const CONFIG_FILENAME = ".workspaces-list.json"
+
+// Written at the top of new .workspaces-list.json files
+const SCHEMA_URL =
+  "https://raw.githubusercontent.com/starburst997/workspaces-list/main/workspaces-list.schema.json"
+
+const PRESET_COLORS = [
+  { label: "Red", color: "#FF6B6B" },
+  { label: "Orange", color: "#FFA94D" },
+  { label: "Yellow", color: "#FFD43B" },
+  { label: "Green", color: "#69DB7C" },
+  { label: "Teal", color: "#4ECDC4" },
+  { label: "Blue", color: "#4DABF7" },
+  { label: "Purple", color: "#B197FC" },
+  { label: "Pink", color: "#F783AC" },
+]
+
+type Appearance = Pick<WorkspaceConfig, "displayName" | "icon" | "color">
+
+/**
+ * Ask for a display name, undefined when cancelled, "" for the default name
+ */
+async function pickDisplayName(
+  current: string | undefined,
+  defaultName: string,
+): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    title: "Customize Workspace (2/4): Display Name",
+    prompt: `Leave empty to use the default name (${defaultName})`,
+    value: current ?? "",
+  })
+  return name?.trim()
+}
+
+/**
+ * Ask for an icon, undefined when cancelled, "" for the default icon
+ */
+async function pickIcon(
+  current: string | undefined,
+  folderPath: string,
+): Promise<string | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "$(symbol-misc) Codicon", source: "codicon" },
+      { label: "$(smiley) Emoji", source: "emoji" },
+      { label: "$(file-media) Image File...", source: "file" },
+      ...(current
+        ? [{ label: `$(check) Keep Current (${current})`, source: "keep" }]
+        : []),
+      { label: "$(circle-slash) Default Icon", source: "default" },
+    ],
+    { title: "Customize Workspace (3/4): Icon" },
+  )
+
+  switch (choice?.source) {
+    case "codicon": {
+      const picked = await vscode.window.showQuickPick(
+        [...CODICON_NAMES].sort().map((name) => ({
+          label: `$(${name}) ${name}`,
+          name,
+        })),
+        {
+          title: "Customize Workspace (3/4): Codicon",
+          placeHolder: "Search codicons",
+          matchOnDescription: true,
+        },
+      )
+      return picked?.name
+    }
+
+    case "emoji":
+      return (
+        await vscode.window.showInputBox({
+          title: "Customize Workspace (3/4): Emoji",
+          prompt: "Type or paste an emoji",
+          value: current,
+          validateInput: (value) =>
+            value.trim() ? undefined : "Enter an emoji",
+        })
+      )?.trim()
+
+    case "file": {
+      const files = await vscode.window.showOpenDialog({
+        title: "Customize Workspace (3/4): Icon File",
+        defaultUri: vscode.Uri.file(folderPath),
+        canSelectMany: false,
+        filters: { Images: ["svg", "png", "jpg", "jpeg", "gif", "ico"] },
+      })
+      if (!files?.[0]) {
+        return undefined
+      }
+      // Files inside the workspace are stored relative to it
+      const relative = path.relative(folderPath, files[0].fsPath)
+      return relative.startsWith("..") || path.isAbsolute(relative)
+        ? files[0].fsPath
+        : `./${relative.split(path.sep).join("/")}`
+    }
+
+    case "keep":
+      return current
+
+    case "default":
+      return ""
+
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Ask for a color, undefined when cancelled, "" for no color
+ */
+async function pickColor(
+  current: string | undefined,
+): Promise<string | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      ...PRESET_COLORS.map((preset) => ({
+        label: preset.label,
+        description: preset.color,
+        color: preset.color,
+      })),
+      { label: "Custom...", description: "Any CSS color", color: "custom" },
+      ...(current
+        ? [{ label: "Keep Current", description: current, color: current }]
+        : []),
+      { label: "No Color", color: "" },
+    ],
+    { title: "Customize Workspace (4/4): Color" },
+  )
+
+  if (choice?.color !== "custom") {
+    return choice?.color
+  }
+  return (
+    await vscode.window.showInputBox({
+      title: "Customize Workspace (4/4): Custom Color",
+      prompt: "Hex, rgb(), hsl() or named CSS color",
+      value: current,
+      validateInput: (value) =>
+        isCssColor(value) ? undefined : "Not a CSS color",
+    })
+  )?.trim()
+}
+
+/**
+ * Apply the picked appearance to a config, "" removes a setting
+ */
+function applyAppearance(
+  config: Record<string, unknown>,
+  appearance: Appearance,
+): Record<string, unknown> {
+  const updated = { ...config }
+  for (const [key, value] of Object.entries(appearance)) {
+    if (value) {
+      updated[key] = value
+    } else {
+      delete updated[key]
+    }
+  }
+  return updated
+}
+
+/**
+ * Read a JSON object file, {} when it doesn't exist
+ * Throws when the file can't be parsed, so it isn't overwritten
+ */
+async function readJsonObject(
+  filePath: string,
+): Promise<Record<string, unknown>> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, "utf-8")
+  } catch {
+    return {}
+  }
+  const data = JSON.parse(content)
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${filePath} is not a JSON object`)
+  }
+  return data
+}
+
+/**
+ * Write the appearance to the workspace's .workspaces-list.json
+ * New files start with the $schema reference
+ */
+async function writeWorkspaceConfig(
+  folderPath: string,
+  appearance: Appearance,
+): Promise<string> {
+  const configPath = path.join(folderPath, CONFIG_FILENAME)
+  const config = applyAppearance(await readJsonObject(configPath), appearance)
+  const { $schema, ...rest } = config
+  await fs.writeFile(
+    configPath,
+    JSON.stringify({ $schema: $schema || SCHEMA_URL, ...rest }, null, 2) + "\n",
+  )
+  return configPath
+}
+
+/**
+ * Get the key of a workspace folder in the user overrides file
+ * The keys are globs, so the folder's glob characters are escaped
+ */
+function getUserOverrideKey(folderPath: string): string {
+  const home = process.env.HOME
+  return home && folderPath.startsWith(home + path.sep)
+    ? "~" + escapeGlob(folderPath.slice(home.length))
+    : escapeGlob(folderPath)
+}
+
+/**
+ * Write the appearance as a user override of the workspace folder
+ * in ~/.config/workspaces-list/overrides.json
+ */
+async function writeUserOverride(
+  folderPath: string,
+  appearance: Appearance,
+): Promise<string> {
+  const overrides = await readJsonObject(USER_CONFIG_PATH)
+  const key = getUserOverrideKey(folderPath)
+  const current = (overrides[key] as Record<string, unknown>) || {}
+  overrides[key] = applyAppearance(current, appearance)
+  await fs.mkdir(path.dirname(USER_CONFIG_PATH), { recursive: true })
+  await fs.writeFile(
+    USER_CONFIG_PATH,
+    JSON.stringify(overrides, null, 2) + "\n",
+  )
+  return USER_CONFIG_PATH
+}
+
+/**
+ * Walk through picking where to save the customization, then the display
+ * name, icon and color of a workspace
+ * The current values are read from the file written to (not the merged
+ * config), so values from other sources aren't copied into it
+ * Returns false when cancelled
+ */
+export async function customizeWorkspace(
+  folderPath: string,
+  defaultName: string,
+): Promise<boolean> {
+  const target = await vscode.window.showQuickPick(
+    [
+      {
+        label: "$(repo) Workspace File",
+        description: path.join(folderPath, CONFIG_FILENAME),
+        detail: "Shared with everyone working on this repository",
+        user: false,
+      },
+      {
+        label: "$(account) User Override",
+        description: USER_CONFIG_PATH,
+        detail: "Only for you, the repository is left untouched",
+        user: true,
+      },
+    ],
+    { title: "Customize Workspace (1/4): Save To" },
+  )
+  if (!target) {
+    return false
+  }
+
+  let current: WorkspaceConfig | undefined
+  try {
+    current = target.user
+      ? ((await readJsonObject(USER_CONFIG_PATH))[
+          getUserOverrideKey(folderPath)
+        ] as WorkspaceConfig | undefined)
+      : await readJsonObject(path.join(folderPath, CONFIG_FILENAME))
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to read the current customization: ${error}`,
+    )
+    return false
+  }
+
+  const displayName = await pickDisplayName(current?.displayName, defaultName)
+  if (displayName === undefined) {
+    return false
+  }
+  const icon = await pickIcon(current?.icon, folderPath)
+  if (icon === undefined) {
+    return false
+  }
+  const color = await pickColor(current?.color)
+  if (color === undefined) {
+    return false
+  }
+
+  const appearance = { displayName, icon, color }
+  try {
+    const filePath = target.user
+      ? await writeUserOverride(folderPath, appearance)
+      : await writeWorkspaceConfig(folderPath, appearance)
+    vscode.window.showInformationMessage(`Saved to ${filePath}`)
+    return true
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save the customization: ${error}`)
+    return false
+  }
+}
@@ -0,0 +1,186 @@
+import * as vscode from "vscode"
+
+/**
+ * An editor flavor whose windows can be discovered
+ */
+export interface EditorApp {
+  /**
+   * Identifier stored in WindowInfo.appName
+   */
+  name: string
+
+  /**
+   * Name shown in the tree (defaults to name)
+   */
+  displayName?: string
+
+  /**
+   * Platform this entry applies to
+   */
+  platform: "darwin" | "linux"
+
+  /**
+   * Main process executable
+   * - macOS: substring of the process command line
+   * - Linux: suffix of the executable path (/proc/<pid>/exe)
+   */
+  processPath: string
+
+  /**
+   * workspaceStorage directory, relative to the home directory
+   */
+  storagePath: string
+
+  /**
+   * Codicon name used to represent the app
+   */
+  icon?: string
+
+  /**
+   * Set to false to disable a built-in entry
+   */
+  enabled?: boolean
+}
+
+export const BUILTIN_EDITOR_APPS: EditorApp[] = [
+  // macOS
+  {
+    name: "Cursor",
+    platform: "darwin",
+    processPath: "Cursor.app/Contents/MacOS/Cursor",
+    storagePath: "Library/Application Support/Cursor/User/workspaceStorage",
+    icon: "edit",
+  },
+  {
+    name: "Cursor Nightly",
+    platform: "darwin",
+    processPath: "Cursor Nightly.app/Contents/MacOS/Cursor Nightly",
+    storagePath:
+      "Library/Application Support/Cursor Nightly/User/workspaceStorage",
+    icon: "beaker",
+  },
+  {
+    name: "Code",
+    displayName: "VS Code",
+    platform: "darwin",
+    processPath: "Visual Studio Code.app/Contents/MacOS/Electron",
+    storagePath: "Library/Application Support/Code/User/workspaceStorage",
+    icon: "vscode",
+  },
+  {
+    name: "Code - Insiders",
+    displayName: "VS Code Insiders",
+    platform: "darwin",
+    processPath: "Visual Studio Code - Insiders.app/Contents/MacOS/Electron",
+    storagePath:
+      "Library/Application Support/Code - Insiders/User/workspaceStorage",
+    icon: "vscode-insiders",
+  },
+  {
+    name: "VSCodium",
+    platform: "darwin",
+    processPath: "VSCodium.app/Contents/MacOS/Electron",
+    storagePath: "Library/Application Support/VSCodium/User/workspaceStorage",
+    icon: "code",
+  },
+  {
+    name: "Windsurf",
+    platform: "darwin",
+    processPath: "Windsurf.app/Contents/MacOS/Electron",
+    storagePath: "Library/Application Support/Windsurf/User/workspaceStorage",
+    icon: "sparkle",
+  },
+
+  // Linux (distro packages, snaps and AppImage mounts all end with the same path)
+  {
+    name: "Cursor",
+    platform: "linux",
+    processPath: "/cursor",
+    storagePath: ".config/Cursor/User/workspaceStorage",
+    icon: "edit",
+  },
+  {
+    name: "Cursor Nightly",
+    platform: "linux",
+    processPath: "/cursor-nightly",
+    storagePath: ".config/Cursor Nightly/User/workspaceStorage",
+    icon: "beaker",
+  },
+  {
+    name: "Code",
+    displayName: "VS Code",
+    platform: "linux",
+    processPath: "/code",
+    storagePath: ".config/Code/User/workspaceStorage",
+    icon: "vscode",
+  },
+  {
+    name: "Code - Insiders",
+    displayName: "VS Code Insiders",
+    platform: "linux",
+    processPath: "/code-insiders",
+    storagePath: ".config/Code - Insiders/User/workspaceStorage",
+    icon: "vscode-insiders",
+  },
+  {
+    name: "VSCodium",
+    platform: "linux",
+    processPath: "/codium",
+    storagePath: ".config/VSCodium/User/workspaceStorage",
+    icon: "code",
+  },
+  {
+    name: "Windsurf",
+    platform: "linux",
+    processPath: "/windsurf",
+    storagePath: ".config/Windsurf/User/workspaceStorage",
+    icon: "sparkle",
+  },
+]
+
+/**
+ * Get the editor apps for a platform
+ * Entries from the workspacesList.editorApps setting override built-in
+ * entries with the same name and platform, other entries are appended
+ */
+export function getEditorApps(
+  platform: NodeJS.Platform = process.platform,
+): EditorApp[] {
+  const config = vscode.workspace.getConfiguration("workspacesList")
+  const userApps = config.get<Partial<EditorApp>[]>("editorApps", [])
+
+  const apps = BUILTIN_EDITOR_APPS.map((app) => ({ ...app }))
+
+  for (const userApp of userApps) {
+    if (!userApp.name || !userApp.platform) {
+      continue
+    }
+
+    const existing = apps.find(
+      (app) => app.name === userApp.name && app.platform === userApp.platform,
+    )
+    if (existing) {
+      Object.assign(existing, userApp)
+    } else if (userApp.processPath && userApp.storagePath) {
+      apps.push(userApp as EditorApp)
+    }
+  }
+
+  return apps.filter(
+    (app) => app.platform === platform && app.enabled !== false,
+  )
+}
+
+/**
+ * Find the editor app a window belongs to
+ */
+export function findEditorApp(appName: string): EditorApp | undefined {
+  return getEditorApps().find((app) => app.name === appName)
+}
+
+/**
+ * Get the name shown for an app
+ */
+export function getAppDisplayName(appName: string): string {
+  return findEditorApp(appName)?.displayName || appName
+}
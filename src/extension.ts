@@ -1,6 +1,20 @@
 import * as vscode from "vscode"
 import { WorkspacesProvider, WorkspaceItem } from "./workspacesProvider"
 import { ClaudeCodeDecorator } from "./claudeCodeDecorator"
+import {
+  areClaudeHooksInstalled,
+  installClaudeHooks,
+  uninstallClaudeHooks,
+} from "./claudeHooks"
+import { ClaudeStatusBar } from "./claudeStatusBar"
+import { NotificationManager } from "./notificationManager"
+import { StatusHistory } from "./statusHistory"
+import { StatusTimelineProvider } from "./statusTimelineProvider"
+import { TranscriptProvider } from "./transcriptProvider"
+import { UsageReportProvider } from "./usageReportProvider"
+import { WindowSource } from "./windowSource"
+import { describeFilter, isFilterActive } from "./workspaceFilter"
+import { WorkspaceSetManager } from "./workspaceSets"
 
 // Create a global output channel for the extension
 export const outputChannel = vscode.window.createOutputChannel("Workspaces List")
@@ -16,15 +30,28 @@ export async function activate(context: vscode.ExtensionContext) {
     decorator,
   )
 
+  // Record status transitions
+  const statusHistory = new StatusHistory(context.globalStorageUri, decorator)
+  await statusHistory.load()
+
   // Create the tree data provider
-  const workspacesProvider = new WorkspacesProvider(context, decorator)
+  const workspacesProvider = new WorkspacesProvider(
+    context,
+    decorator,
+    statusHistory,
+  )
 
   // Register the tree view
   const treeView = vscode.window.createTreeView("workspacesList", {
     treeDataProvider: workspacesProvider,
+    dragAndDropController: workspacesProvider,
     showCollapseAll: true,
   })
 
+  const expandListener = treeView.onDidExpandElement((e) =>
+    workspacesProvider.handleExpand(e.element),
+  )
+
   // Register refresh command
   const refreshCommand = vscode.commands.registerCommand(
     "workspacesList.refresh",
@@ -33,6 +60,60 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   )
 
+  // Register group by command
+  const groupByCommand = vscode.commands.registerCommand(
+    "workspacesList.groupBy",
+    () => workspacesProvider.selectGroupBy(),
+  )
+
+  // Register filter commands, the filter is shown in the view description
+  const filterCommand = vscode.commands.registerCommand(
+    "workspacesList.filter",
+    () => workspacesProvider.editFilter(),
+  )
+  const clearFilterCommand = vscode.commands.registerCommand(
+    "workspacesList.clearFilter",
+    () => workspacesProvider.clearFilter(),
+  )
+  const toggleHideBrowsersCommand = vscode.commands.registerCommand(
+    "workspacesList.toggleHideBrowsers",
+    () =>
+      workspacesProvider.setFilter({
+        hideBrowsers: !workspacesProvider.getFilter().hideBrowsers,
+      }),
+  )
+  const toggleHideNoSessionCommand = vscode.commands.registerCommand(
+    "workspacesList.toggleHideNoSession",
+    () =>
+      workspacesProvider.setFilter({
+        hideNoSession: !workspacesProvider.getFilter().hideNoSession,
+      }),
+  )
+  const filterListener = workspacesProvider.onDidChangeFilter((filter) => {
+    treeView.description = describeFilter(filter)
+    void vscode.commands.executeCommand(
+      "setContext",
+      "workspacesList.filtered",
+      isFilterActive(filter),
+    )
+    void vscode.commands.executeCommand(
+      "setContext",
+      "workspacesList.hideBrowsers",
+      filter.hideBrowsers,
+    )
+    void vscode.commands.executeCommand(
+      "setContext",
+      "workspacesList.hideNoSession",
+      filter.hideNoSession,
+    )
+  })
+
+  // Register sort by command
+  const sortByCommand = vscode.commands.registerCommand(
+    "workspacesList.sortBy",
+    () => workspacesProvider.selectSortBy(),
+  )
+
   // Register focus workspace command
   const focusCommand = vscode.commands.registerCommand(
     "workspacesList.focusWorkspace",
@@ -41,10 +122,154 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   )
 
+  // Register customize workspace command
+  const customizeCommand = vscode.commands.registerCommand(
+    "workspacesList.customizeWorkspace",
+    (item: WorkspaceItem) => workspacesProvider.customizeWorkspace(item),
+  )
+
+  // Register the read-only transcript documents
+  const transcriptProvider = new TranscriptProvider()
+  const transcriptRegistration =
+    vscode.workspace.registerTextDocumentContentProvider(
+      TranscriptProvider.scheme,
+      transcriptProvider,
+    )
+
+  // Register open transcript command
+  const transcriptCommand = vscode.commands.registerCommand(
+    "workspacesList.openTranscript",
+    async (item: WorkspaceItem) => {
+      const session = await workspacesProvider.pickSession(item)
+      if (session) {
+        await transcriptProvider.open(
+          session.filePath,
+          session.firstPrompt || String(item.label),
+        )
+      }
+    },
+  )
+
+  // Register the status timeline documents and command
+  const timelineProvider = new StatusTimelineProvider(statusHistory)
+  const timelineRegistration =
+    vscode.workspace.registerTextDocumentContentProvider(
+      StatusTimelineProvider.scheme,
+      timelineProvider,
+    )
+  const timelineCommand = vscode.commands.registerCommand(
+    "workspacesList.showTimeline",
+    (item: WorkspaceItem) =>
+      timelineProvider.open(item.path, String(item.label)),
+  )
+
+  // Register the usage report document and command
+  const usageReportProvider = new UsageReportProvider(() =>
+    workspacesProvider.getWorkspaceUsage(),
+  )
+  const usageReportRegistration =
+    vscode.workspace.registerTextDocumentContentProvider(
+      UsageReportProvider.scheme,
+      usageReportProvider,
+    )
+  const usageCommand = vscode.commands.registerCommand(
+    "workspacesList.showUsage",
+    () => usageReportProvider.open(),
+  )
+
+  // Notify status changes of other workspaces
+  const notificationManager = new NotificationManager(
+    decorator,
+    (path) => workspacesProvider.getItem(path),
+    (item) => workspacesProvider.focusWorkspace(item),
+  )
+
+  // Register Claude Code hooks commands
+  const installHooksCommand = vscode.commands.registerCommand(
+    "workspacesList.installClaudeHooks",
+    async () => {
+      const answer = await vscode.window.showInformationMessage(
+        "Install Claude Code hooks?",
+        {
+          modal: true,
+          detail:
+            "Hooks reporting the status of each session are added to ~/.claude/settings.json, for exact statuses instead of estimates. Claude sessions started from now on use them. The file is rewritten with 2-space indentation, its settings are kept.",
+        },
+        "Install",
+      )
+      if (answer !== "Install") {
+        return
+      }
+
+      try {
+        await installClaudeHooks()
+        await vscode.workspace
+          .getConfiguration("workspacesList")
+          .update("useClaudeHooks", true, vscode.ConfigurationTarget.Global)
+        vscode.window.showInformationMessage(
+          "Claude Code hooks installed, restart running Claude sessions to use them",
+        )
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to install Claude Code hooks: ${error}`,
+        )
+      }
+    },
+  )
+
+  const uninstallHooksCommand = vscode.commands.registerCommand(
+    "workspacesList.uninstallClaudeHooks",
+    async () => {
+      try {
+        await uninstallClaudeHooks()
+        await vscode.workspace
+          .getConfiguration("workspacesList")
+          .update("useClaudeHooks", false, vscode.ConfigurationTarget.Global)
+        vscode.window.showInformationMessage(
+          "Claude Code hooks removed, ~/.claude/settings.json was rewritten with 2-space indentation",
+        )
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to remove Claude Code hooks: ${error}`,
+        )
+      }
+    },
+  )
+
+  // Summarize the statuses of all workspaces in the status bar
+  const statusBar = new ClaudeStatusBar(decorator, workspacesProvider)
+
+  // Save, open, close and compare named sets of workspaces
+  const workspaceSets = new WorkspaceSetManager(context, workspacesProvider)
+
   context.subscriptions.push(
     treeView,
+    expandListener,
     refreshCommand,
+    groupByCommand,
+    sortByCommand,
+    filterCommand,
+    clearFilterCommand,
+    toggleHideBrowsersCommand,
+    toggleHideNoSessionCommand,
+    filterListener,
     focusCommand,
+    customizeCommand,
+    transcriptCommand,
+    transcriptRegistration,
+    transcriptProvider,
+    timelineCommand,
+    timelineRegistration,
+    timelineProvider,
+    statusHistory,
+    usageCommand,
+    usageReportRegistration,
+    usageReportProvider,
+    notificationManager,
+    statusBar,
+    workspaceSets,
+    installHooksCommand,
+    uninstallHooksCommand,
     decorationProvider,
     decorator,
     workspacesProvider,
@@ -53,6 +278,43 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Initial refresh - wait for it to complete before continuing
   await workspacesProvider.refresh()
+
+  // Hooks enabled but missing (e.g. ~/.claude/settings.json was reset)
+  const useClaudeHooks = vscode.workspace
+    .getConfiguration("workspacesList")
+    .get<boolean>("useClaudeHooks", false)
+  if (useClaudeHooks && !(await areClaudeHooksInstalled())) {
+    outputChannel.appendLine(
+      "[WorkspacesList] Claude Code hooks are enabled but not installed",
+    )
+    void vscode.window
+      .showWarningMessage(
+        "Claude Code hooks are enabled but not installed, statuses are estimated.",
+        "Install",
+      )
+      .then((answer) => {
+        if (answer === "Install") {
+          void vscode.commands.executeCommand(
+            "workspacesList.installClaudeHooks",
+          )
+        }
+      })
+  }
+
+  // Public API - lets other extensions contribute window sources
+  return {
+    registerWindowSource(
+      source: WindowSource,
+      platforms?: NodeJS.Platform[],
+    ): vscode.Disposable {
+      const registration = workspacesProvider.registerWindowSource(
+        source,
+        platforms,
+      )
+      context.subscriptions.push(registration)
+      return registration
+    },
+  }
 }
 
 export function deactivate() {
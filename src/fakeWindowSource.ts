@@ -0,0 +1,69 @@
+import * as path from "path"
+import { WindowInfo, WindowSource, WindowSourceKind } from "./windowSource"
+
+/**
+ * In-memory window source
+ * Used to exercise the tree without any real editor (or browser) running
+ */
+export class FakeWindowSource implements WindowSource {
+  readonly focusedWindows: WindowInfo[] = []
+
+  constructor(
+    readonly id: string = "fake",
+    readonly kind: WindowSourceKind = "workspace",
+    private windows: WindowInfo[] = [],
+  ) {}
+
+  /**
+   * Create a fake editor source with one window per workspace path
+   */
+  static fromPaths(workspacePaths: string[]): FakeWindowSource {
+    const source = new FakeWindowSource()
+    for (const workspacePath of workspacePaths) {
+      source.addWindow(workspacePath)
+    }
+    return source
+  }
+
+  async getOpenWindows(): Promise<WindowInfo[]> {
+    return [...this.windows]
+  }
+
+  async focusWindow(windowInfo: WindowInfo): Promise<boolean> {
+    this.focusedWindows.push(windowInfo)
+    return this.windows.some((w) => w.windowId === windowInfo.windowId)
+  }
+
+  getWorkspaceName(windowInfo: WindowInfo): string {
+    return windowInfo.windowTitle
+  }
+
+  /**
+   * Add a window for a workspace path
+   */
+  addWindow(workspacePath: string, appName: string = "Fake"): WindowInfo {
+    const windowInfo: WindowInfo = {
+      appName,
+      windowTitle: path.basename(workspacePath),
+      windowIndex: this.windows.length + 1,
+      windowId: `${this.id}-${this.windows.length + 1}`,
+      workspacePath,
+    }
+    this.windows.push(windowInfo)
+    return windowInfo
+  }
+
+  /**
+   * Remove the window of a workspace path
+   */
+  removeWindow(workspacePath: string): void {
+    this.windows = this.windows.filter((w) => w.workspacePath !== workspacePath)
+  }
+
+  /**
+   * Replace all windows
+   */
+  setWindows(windows: WindowInfo[]): void {
+    this.windows = [...windows]
+  }
+}
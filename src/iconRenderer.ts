@@ -1,15 +1,204 @@
+import { createHash } from "crypto"
 import * as fs from "fs/promises"
 import * as path from "path"
 import * as vscode from "vscode"
+import { outputChannel } from "./extension"
+import { ClaudeCodeStatus } from "./types"
+import { downloadIcon, getCachedIcon } from "./urlIconCache"
+
+// Kinds of icon configuration
+export type IconKind = "emoji" | "svg" | "url" | "file" | "codicon"
+
+/**
+ * Tell how an icon configuration is rendered
+ */
+export function getIconKind(iconConfig: string): IconKind {
+  // Simple emoji detection - checks if it's a short string with emoji characters
+  const emojiRegex = /[\u{1F300}-\u{1F9FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/u
+  if (iconConfig.length <= 4 && emojiRegex.test(iconConfig)) {
+    return "emoji"
+  }
+  if (iconConfig.trim().startsWith("<svg")) {
+    return "svg"
+  }
+  if (iconConfig.startsWith("http://") || iconConfig.startsWith("https://")) {
+    return "url"
+  }
+  if (
+    iconConfig.startsWith("./") ||
+    iconConfig.startsWith("../") ||
+    iconConfig.startsWith("/") ||
+    iconConfig.startsWith("~")
+  ) {
+    return "file"
+  }
+  return "codicon"
+}
+
+/**
+ * Resolve the path of an icon file
+ * Relative paths are relative to the workspace
+ */
+export function resolveIconFile(
+  iconPath: string,
+  workspacePath: string,
+): string {
+  if (iconPath.startsWith("~")) {
+    // Expand home directory
+    return path.join(process.env.HOME || "", iconPath.slice(1))
+  }
+  if (iconPath.startsWith("/")) {
+    // Absolute path
+    return iconPath
+  }
+  // Relative path - resolve relative to workspace
+  const expandedWorkspace = workspacePath.startsWith("~")
+    ? path.join(process.env.HOME || "", workspacePath.slice(1))
+    : workspacePath
+  return path.join(expandedWorkspace, iconPath)
+}
+
+// Status overlay drawn over workspace icons
+export type StatusOverlay = "off" | "dot" | "ring"
+
+// Overlay colors per status, matching the theme defaults of the decoration
+// colors (SVG files can't use theme colors), no overlay for other statuses
+const OVERLAY_COLORS: Partial<
+  Record<ClaudeCodeStatus, { light: string; dark: string }>
+> = {
+  [ClaudeCodeStatus.WaitingForInput]: { light: "#E51400", dark: "#F14C4C" },
+  [ClaudeCodeStatus.Executing]: { light: "#FF8A6B", dark: "#FF8A6B" },
+  [ClaudeCodeStatus.RecentlyFinished]: { light: "#89D185", dark: "#89D185" },
+  [ClaudeCodeStatus.Running]: { light: "#0451A5", dark: "#2472C8" },
+  [ClaudeCodeStatus.NotRunning]: { light: "#717171", dark: "#8B8B8B" },
+  [ClaudeCodeStatus.Unknown]: { light: "#717171", dark: "#8B8B8B" },
+}
+
+// Side bar backgrounds, the dot is cut out of the icon with them
+const OVERLAY_BACKGROUNDS = { light: "#F3F3F3", dark: "#252526" }
+
+// MIME types of the image files that can be composited
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".svg": "image/svg+xml",
+}
+
+// Logo files looked for in a workspace without a configured icon, in order
+const LOGO_FILES = [
+  "favicon.svg",
+  "favicon.ico",
+  "logo.svg",
+  path.join(".github", "logo.png"),
+]
+
+/**
+ * Find the logo of a repository: a known logo file, or the icon of its
+ * package.json (e.g. VS Code extensions)
+ * Returns the absolute path of the logo, undefined when there is none
+ */
+export async function findRepoLogo(
+  workspacePath: string,
+): Promise<string | undefined> {
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    )
+
+  for (const logoFile of LOGO_FILES) {
+    const logoPath = path.join(workspacePath, logoFile)
+    if (await exists(logoPath)) {
+      return logoPath
+    }
+  }
+
+  try {
+    const packageJson = JSON.parse(
+      await fs.readFile(path.join(workspacePath, "package.json"), "utf-8"),
+    )
+    if (typeof packageJson.icon === "string") {
+      const iconPath = path.resolve(workspacePath, packageJson.icon)
+      if (
+        IMAGE_MIME_TYPES[path.extname(iconPath).toLowerCase()] &&
+        (await exists(iconPath))
+      ) {
+        return iconPath
+      }
+    }
+  } catch {
+    // No package.json
+  }
+  return undefined
+}
+
+/**
+ * Generate a monogram icon from a workspace name: the initials of its first
+ * two words (e.g. "workspaces-list" -> "WL") on a background whose color is
+ * derived from the name, so a workspace always gets the same icon
+ * Remote workspaces get a dashed outline in that color instead of the
+ * background, telling them apart from local ones
+ */
+export function createMonogramSvg(name: string, remote = false): string {
+  const words = name
+    .replace(/([a-z])([A-Z])/g, "$1 $2") // camelCase
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+  const initials =
+    words
+      .slice(0, 2)
+      .map((word) => [...word][0].toUpperCase())
+      .join("") || "?"
+  const hue = createHash("md5").update(name).digest().readUInt16BE(0) % 360
+
+  const color = `hsl(${hue}, 55%, 45%)`
+  const background = remote
+    ? `<rect x="7" y="7" width="86" height="86" rx="18" fill="none" stroke="${color}" stroke-width="6" stroke-dasharray="14 8"/>`
+    : `<rect x="4" y="4" width="92" height="92" rx="20" fill="${color}"/>`
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+      ${background}
+      <text x="50" y="50" font-family="sans-serif" font-size="${initials.length > 1 ? 44 : 56}" font-weight="600" fill="${remote ? color : "#FFFFFF"}" text-anchor="middle" dominant-baseline="central">${initials}</text>
+    </svg>`
+}
+
+// Generated icons unused for this long are removed
+const ICON_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+// Failed URL icon downloads aren't retried before this delay
+const RETRY_DELAY = 5 * 60 * 1000 // ms
+
+// Shortest refresh interval of URL icons, whatever the setting
+const MIN_URL_ICON_REFRESH_HOURS = 1
 
 export class IconRenderer {
+  private removedUnusedIcons = false // Once per session
+
+  // Fired with the URL of an icon once it is downloaded
+  private _onDidDownloadIcon = new vscode.EventEmitter<string>()
+  readonly onDidDownloadIcon: vscode.Event<string> =
+    this._onDidDownloadIcon.event
+
+  private pendingDownloads = new Set<string>()
+  private failedDownloads = new Map<string, number>() // URL -> time
+
   /**
    * Convert icon configuration to VSCode icon path
+   * Without a configured icon, the repository logo is used, or else a
+   * monogram generated from the workspace name
+   * URL icons are served from a local copy, downloaded in the background
+   * (see onDidDownloadIcon), with the monogram until there is one
    */
   async renderIcon(
     iconConfig: string | undefined,
     workspacePath: string,
     context: vscode.ExtensionContext,
+    status?: ClaudeCodeStatus,
+    name: string = path.basename(workspacePath),
   ): Promise<
     | vscode.ThemeIcon
     | vscode.Uri
@@ -17,63 +206,177 @@ export class IconRenderer {
     | undefined
   > {
     if (!iconConfig) {
-      // Default icon - try different codicons
-      return new vscode.ThemeIcon("symbol-folder") // Try this instead of "folder"
-      //return this.createIconFromEmoji("📁", context)
+      iconConfig =
+        (await findRepoLogo(workspacePath)) || createMonogramSvg(name)
+    } else if (getIconKind(iconConfig) === "url") {
+      iconConfig =
+        (await this.getUrlIcon(iconConfig, context)) || createMonogramSvg(name)
     }
 
-    // Check if it's an emoji (single character or emoji sequence)
-    if (this.isEmoji(iconConfig)) {
-      // Convert emoji to SVG icon
-      return this.createIconFromEmoji(iconConfig, context)
+    const overlay = this.getStatusOverlay()
+    const colors = status !== undefined ? OVERLAY_COLORS[status] : undefined
+    if (overlay !== "off" && colors) {
+      const composite = await this.createOverlayIcon(
+        iconConfig,
+        workspacePath,
+        overlay,
+        colors,
+        context,
+      )
+      if (composite) {
+        return composite
+      }
     }
 
-    // Check if it's SVG content
-    if (iconConfig.trim().startsWith("<svg")) {
-      return this.createIconFromSvg(iconConfig, context)
+    switch (getIconKind(iconConfig)) {
+      case "emoji":
+        // Convert emoji to SVG icon
+        return this.createIconFromEmoji(iconConfig, context)
+
+      case "svg":
+        return this.createIconFromSvg(iconConfig, context)
+
+      case "file":
+        return this.resolveIconPath(iconConfig, workspacePath)
+
+      default:
+        // Assume it's a Codicon name
+        return new vscode.ThemeIcon(iconConfig)
     }
+  }
 
-    // Check if it's a URL
-    if (this.isUrl(iconConfig)) {
-      return vscode.Uri.parse(iconConfig)
+  /**
+   * Get the local copy of a URL icon, undefined when there is none yet
+   * Missing and outdated copies (workspacesList.urlIcons.refreshHours) are
+   * downloaded in the background, an outdated copy is used meanwhile and
+   * kept when the download fails (e.g. offline)
+   */
+  private async getUrlIcon(
+    url: string,
+    context: vscode.ExtensionContext,
+  ): Promise<string | undefined> {
+    const cacheDir = path.join(context.globalStorageUri.fsPath, "url-icons")
+    const cached = await getCachedIcon(cacheDir, url)
+    const refreshHours = Math.max(
+      MIN_URL_ICON_REFRESH_HOURS,
+      vscode.workspace
+        .getConfiguration("workspacesList")
+        .get<number>("urlIcons.refreshHours", 24),
+    )
+    if (!cached || Date.now() - cached.fetchedAt > refreshHours * 3600000) {
+      this.downloadUrlIcon(cacheDir, url)
     }
+    return cached?.filePath
+  }
 
-    // Check if it's a file path
-    if (this.isFilePath(iconConfig)) {
-      return this.resolveIconPath(iconConfig, workspacePath)
+  private downloadUrlIcon(cacheDir: string, url: string): void {
+    if (
+      this.pendingDownloads.has(url) ||
+      Date.now() - (this.failedDownloads.get(url) || 0) < RETRY_DELAY
+    ) {
+      return
     }
 
-    // Assume it's a Codicon name
-    return new vscode.ThemeIcon(iconConfig)
+    this.pendingDownloads.add(url)
+    downloadIcon(cacheDir, url)
+      .then(
+        () => {
+          outputChannel.appendLine(`[WorkspacesList] Cached icon ${url}`)
+          this.failedDownloads.delete(url)
+          this._onDidDownloadIcon.fire(url)
+        },
+        (error) => {
+          outputChannel.appendLine(
+            `[WorkspacesList] Failed to download icon ${url}: ${error}`,
+          )
+          this.failedDownloads.set(url, Date.now())
+        },
+      )
+      .finally(() => this.pendingDownloads.delete(url))
+  }
+
+  private getStatusOverlay(): StatusOverlay {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    return config.get<StatusOverlay>("statusOverlay", "off")
   }
 
   /**
-   * Check if string is an emoji
+   * Get the SVG markup of an icon, drawn in a 100x100 box
+   * Codicons can't be composited (undefined)
    */
-  private isEmoji(str: string): boolean {
-    // Simple emoji detection - checks if it's a short string with emoji characters
-    const emojiRegex =
-      /[\u{1F300}-\u{1F9FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/u
-    return str.length <= 4 && emojiRegex.test(str)
+  private async getIconMarkup(
+    iconConfig: string,
+    workspacePath: string,
+  ): Promise<string | undefined> {
+    switch (getIconKind(iconConfig)) {
+      case "emoji":
+        return `<text x="50" y="50" font-size="70" text-anchor="middle" dominant-baseline="central">${iconConfig}</text>`
+
+      case "svg":
+        return this.getImageMarkup("image/svg+xml", Buffer.from(iconConfig))
+
+      case "file": {
+        const iconPath = resolveIconFile(iconConfig, workspacePath)
+        const mimeType = IMAGE_MIME_TYPES[path.extname(iconPath).toLowerCase()]
+        if (!mimeType) {
+          return undefined
+        }
+        try {
+          return this.getImageMarkup(mimeType, await fs.readFile(iconPath))
+        } catch {
+          return undefined
+        }
+      }
+
+      default:
+        return undefined
+    }
   }
 
   /**
-   * Check if string is a URL
+   * Embed an image as a data URI (SVG icons can't load other files)
    */
-  private isUrl(str: string): boolean {
-    return str.startsWith("http://") || str.startsWith("https://")
+  private getImageMarkup(mimeType: string, content: Buffer): string {
+    return `<image x="0" y="0" width="100" height="100" href="data:${mimeType};base64,${content.toString("base64")}"/>`
   }
 
   /**
-   * Check if string is a file path
+   * Create light and dark icons with the status drawn over the icon
+   * - dot: a dot in the bottom right corner, cut out of the icon
+   * - ring: a ring around the icon, shrunk to fit inside
    */
-  private isFilePath(str: string): boolean {
-    return (
-      str.startsWith("./") ||
-      str.startsWith("../") ||
-      str.startsWith("/") ||
-      str.startsWith("~")
-    )
+  private async createOverlayIcon(
+    iconConfig: string,
+    workspacePath: string,
+    overlay: StatusOverlay,
+    colors: { light: string; dark: string },
+    context: vscode.ExtensionContext,
+  ): Promise<{ light: vscode.Uri; dark: vscode.Uri } | undefined> {
+    const markup = await this.getIconMarkup(iconConfig, workspacePath)
+    if (!markup) {
+      return undefined
+    }
+
+    const createVariant = (theme: "light" | "dark") => {
+      const content =
+        overlay === "ring"
+          ? `<g transform="translate(16 16) scale(0.68)">${markup}</g>
+      <circle cx="50" cy="50" r="45" fill="none" stroke="${colors[theme]}" stroke-width="10"/>`
+          : `${markup}
+      <circle cx="76" cy="76" r="20" fill="${colors[theme]}" stroke="${OVERLAY_BACKGROUNDS[theme]}" stroke-width="8"/>`
+      return this.createIconFromSvg(
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+      ${content}
+    </svg>`,
+        context,
+      )
+    }
+
+    const [light, dark] = await Promise.all([
+      createVariant("light"),
+      createVariant("dark"),
+    ])
+    return light && dark ? { light, dark } : undefined
   }
 
   /**
@@ -84,23 +387,7 @@ export class IconRenderer {
     workspacePath: string,
   ): vscode.Uri | undefined {
     try {
-      let resolvedPath: string
-
-      if (iconPath.startsWith("~")) {
-        // Expand home directory
-        resolvedPath = path.join(process.env.HOME || "", iconPath.slice(1))
-      } else if (iconPath.startsWith("/")) {
-        // Absolute path
-        resolvedPath = iconPath
-      } else {
-        // Relative path - resolve relative to workspace
-        const expandedWorkspace = workspacePath.startsWith("~")
-          ? path.join(process.env.HOME || "", workspacePath.slice(1))
-          : workspacePath
-        resolvedPath = path.join(expandedWorkspace, iconPath)
-      }
-
-      return vscode.Uri.file(resolvedPath)
+      return vscode.Uri.file(resolveIconFile(iconPath, workspacePath))
     } catch (error) {
       console.error("Failed to resolve icon path:", error)
       return undefined
@@ -133,11 +420,23 @@ export class IconRenderer {
       await fs.mkdir(iconsDir, { recursive: true })
 
       // Generate a hash for the SVG content to use as filename
-      const hash = this.simpleHash(svgContent)
+      const hash = createHash("sha1").update(svgContent).digest("hex")
       const iconPath = path.join(iconsDir, `${hash}.svg`)
 
-      // Write SVG to file
-      await fs.writeFile(iconPath, svgContent, "utf-8")
+      // Write SVG to file, unless an icon with the same content exists
+      // (status overlays are re-rendered on every status change), whose
+      // modification time then tells it is still used
+      const now = new Date()
+      try {
+        await fs.utimes(iconPath, now, now)
+      } catch {
+        await fs.writeFile(iconPath, svgContent, "utf-8")
+      }
+
+      if (!this.removedUnusedIcons) {
+        this.removedUnusedIcons = true
+        void this.removeUnusedIcons(iconsDir)
+      }
 
       return vscode.Uri.file(iconPath)
     } catch (error) {
@@ -147,16 +446,22 @@ export class IconRenderer {
   }
 
   /**
-   * Simple hash function for SVG content
+   * Remove the generated icons no window has used for ICON_MAX_AGE (e.g. the
+   * status overlays of statuses left long ago)
+   * Icons are shared by every window, so they are only removed by age
    */
-  private simpleHash(str: string): string {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i)
-      hash = (hash << 5) - hash + char
-      hash = hash & hash // Convert to 32-bit integer
+  private async removeUnusedIcons(iconsDir: string): Promise<void> {
+    try {
+      for (const file of await fs.readdir(iconsDir)) {
+        const iconPath = path.join(iconsDir, file)
+        const stats = await fs.stat(iconPath)
+        if (Date.now() - stats.mtimeMs > ICON_MAX_AGE) {
+          await fs.rm(iconPath, { force: true })
+        }
+      }
+    } catch (error) {
+      console.error("Failed to remove unused icons:", error)
     }
-    return Math.abs(hash).toString(36)
   }
 
   /**
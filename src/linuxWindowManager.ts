@@ -0,0 +1,158 @@
+import { getEditorApps } from "./editorApps"
+import { outputChannel } from "./extension"
+import { listPids, readCmdline, readExe, readFdTargets } from "./procfs"
+import { WindowInfo, WindowSource } from "./windowSource"
+import { getWorkspaceFromHash, getWorkspaceTitle } from "./workspaceStorage"
+
+export class LinuxWindowManager implements WindowSource {
+  readonly id = "linux"
+  readonly kind = "workspace"
+
+  /**
+   * Get all open Cursor/VSCode windows by reading the workspace storage
+   * handles held open by the main processes (via /proc)
+   */
+  async getOpenWindows(): Promise<WindowInfo[]> {
+    outputChannel.appendLine("[WorkspacesList] Starting window detection...")
+
+    const allWindows: WindowInfo[] = []
+
+    // Check every configured editor flavor (Cursor, VSCode, Insiders...)
+    // processPath is matched against the end of the executable path, which
+    // covers distro packages, snaps (/snap/code/...) and AppImage mounts
+    const apps = getEditorApps("linux")
+
+    for (const app of apps) {
+      try {
+        const windows = await this.getWindowsForApp(
+          app.name,
+          app.processPath,
+          app.storagePath,
+        )
+        allWindows.push(...windows)
+      } catch (error: unknown) {
+        outputChannel.appendLine(
+          `[WorkspacesList] Error getting ${app.name} windows: ${error}`,
+        )
+      }
+    }
+
+    outputChannel.appendLine(
+      `[WorkspacesList] Found ${allWindows.length} total workspaces`,
+    )
+    return allWindows
+  }
+
+  /**
+   * Get windows for a specific app
+   */
+  private async getWindowsForApp(
+    appName: string,
+    processPath: string,
+    storagePath: string,
+  ): Promise<WindowInfo[]> {
+    try {
+      const mainPids = await this.findMainProcesses(processPath)
+
+      if (mainPids.length === 0) {
+        outputChannel.appendLine(
+          `[WorkspacesList] ${appName} process not found`,
+        )
+        return []
+      }
+
+      outputChannel.appendLine(
+        `[WorkspacesList] ${appName} PID(s): ${mainPids.join(", ")}`,
+      )
+
+      // Get workspace storage files opened by the main process(es)
+      const storageHashes: string[] = []
+      for (const pid of mainPids) {
+        const targets = await readFdTargets(pid)
+        for (const target of targets) {
+          const match = target.match(
+            /workspaceStorage\/([a-f0-9]+)\/state\.vscdb$/,
+          )
+          if (match && !storageHashes.includes(match[1])) {
+            storageHashes.push(match[1])
+          }
+        }
+      }
+
+      outputChannel.appendLine(
+        `[WorkspacesList] Found ${storageHashes.length} ${appName} workspace storage hashes`,
+      )
+
+      // Read workspace path for each hash
+      const windows: WindowInfo[] = []
+      for (let i = 0; i < storageHashes.length; i++) {
+        const workspace = await getWorkspaceFromHash(
+          storageHashes[i],
+          storagePath,
+        )
+        if (workspace) {
+          windows.push({
+            appName,
+            windowTitle: getWorkspaceTitle(workspace),
+            windowIndex: i + 1,
+            windowId: storageHashes[i],
+            workspacePath: workspace.workspacePath,
+            workspaceFile: workspace.workspaceFile,
+            folders: workspace.folders,
+            remote: workspace.remote,
+          })
+        }
+      }
+
+      outputChannel.appendLine(
+        `[WorkspacesList] Found ${windows.length} ${appName} workspaces`,
+      )
+      return windows
+    } catch (error: unknown) {
+      outputChannel.appendLine(
+        `[WorkspacesList] Error getting ${appName} windows: ${error}`,
+      )
+      return []
+    }
+  }
+
+  /**
+   * Find the main (non-helper) Electron processes of an app
+   * Electron helpers (renderer, GPU, utility...) are started with --type=
+   */
+  private async findMainProcesses(processPath: string): Promise<string[]> {
+    const pids = await listPids()
+    const mainPids: string[] = []
+
+    for (const pid of pids) {
+      const exe = await readExe(pid)
+      if (!exe || !exe.endsWith(processPath)) {
+        continue
+      }
+
+      const argv = await readCmdline(pid)
+      if (argv.some((arg) => arg.startsWith("--type="))) {
+        continue
+      }
+
+      mainPids.push(pid)
+    }
+
+    return mainPids
+  }
+
+  /**
+   * Focus a specific window by workspace path
+   * Uses VSCode's openFolder command, handled by the provider
+   */
+  async focusWindow(): Promise<boolean> {
+    return true
+  }
+
+  /**
+   * Get the friendly workspace name
+   */
+  getWorkspaceName(windowInfo: WindowInfo): string {
+    return windowInfo.windowTitle
+  }
+}
@@ -1,20 +1,16 @@
 import { exec } from "child_process"
-import * as fs from "fs/promises"
-import * as path from "path"
 import { promisify } from "util"
+import { getEditorApps } from "./editorApps"
 import { outputChannel } from "./extension"
+import { WindowInfo, WindowSource } from "./windowSource"
+import { getWorkspaceFromHash, getWorkspaceTitle } from "./workspaceStorage"
 
 const execAsync = promisify(exec)
 
-export interface WindowInfo {
-  appName: string
-  windowTitle: string
-  windowIndex: number
-  windowId?: string
-  workspacePath?: string
-}
+export class MacOSWindowManager implements WindowSource {
+  readonly id = "macos"
+  readonly kind = "workspace"
 
-export class MacOSWindowManager {
   /**
    * Get all open Cursor/VSCode windows by reading workspace storage
    * from the main processes
@@ -24,20 +20,8 @@ export class MacOSWindowManager {
 
     const allWindows: WindowInfo[] = []
 
-    // Check both Cursor and VSCode
-    const apps = [
-      {
-        name: "Cursor",
-        processPath: "Cursor.app/Contents/MacOS/Cursor",
-        storagePath: "Library/Application Support/Cursor/User/workspaceStorage",
-      },
-      {
-        name: "Code",
-        processPath: "Visual Studio Code.app/Contents/MacOS/Electron",
-        storagePath:
-          "Library/Application Support/Code/User/workspaceStorage",
-      },
-    ]
+    // Check every configured editor flavor (Cursor, VSCode, Insiders...)
+    const apps = getEditorApps("darwin")
 
     for (const app of apps) {
       try {
@@ -63,11 +47,14 @@ export class MacOSWindowManager {
     storagePath: string,
   ): Promise<WindowInfo[]> {
     try {
-      // Find main process
-      const { stdout: psOut } = await execAsync(
-        `ps aux | grep "${processPath}" | grep -v grep | grep -v Helper`,
-      )
-      const lines = psOut.trim().split("\n").filter(line => line.trim())
+      // Find main process (filtered here rather than with grep, since
+      // processPath comes from user settings)
+      const { stdout: psOut } = await execAsync("ps -axo pid=,command=")
+      const lines = psOut
+        .split("\n")
+        .filter(
+          (line) => line.includes(processPath) && !line.includes("Helper"),
+        )
 
       if (lines.length === 0) {
         outputChannel.appendLine(`[WorkspacesList] ${appName} process not found`)
@@ -75,7 +62,7 @@ export class MacOSWindowManager {
       }
 
       // Extract PID
-      const pidMatch = lines[0].match(/^\S+\s+(\d+)/)
+      const pidMatch = lines[0].match(/^\s*(\d+)/)
       if (!pidMatch) {
         outputChannel.appendLine(`[WorkspacesList] Could not extract ${appName} PID`)
         return []
@@ -106,17 +93,20 @@ export class MacOSWindowManager {
       // Read workspace path for each hash
       const windows: WindowInfo[] = []
       for (let i = 0; i < storageHashes.length; i++) {
-        const workspacePath = await this.getWorkspaceFromHash(
+        const workspace = await getWorkspaceFromHash(
           storageHashes[i],
           storagePath,
         )
-        if (workspacePath) {
+        if (workspace) {
           windows.push({
             appName,
-            windowTitle: path.basename(workspacePath),
+            windowTitle: getWorkspaceTitle(workspace),
             windowIndex: i + 1,
             windowId: storageHashes[i],
-            workspacePath: workspacePath,
+            workspacePath: workspace.workspacePath,
+            workspaceFile: workspace.workspaceFile,
+            folders: workspace.folders,
+            remote: workspace.remote,
           })
         }
       }
@@ -129,37 +119,6 @@ export class MacOSWindowManager {
     }
   }
 
-  /**
-   * Get workspace path from storage hash
-   */
-  private async getWorkspaceFromHash(
-    hash: string,
-    storagePath: string,
-  ): Promise<string | null> {
-    try {
-      const workspaceJsonPath = path.join(
-        process.env.HOME || "",
-        storagePath,
-        hash,
-        "workspace.json",
-      )
-
-      const content = await fs.readFile(workspaceJsonPath, "utf-8")
-      const data = JSON.parse(content)
-
-      if (data.folder) {
-        let folderPath = data.folder
-        if (folderPath.startsWith("file://")) {
-          folderPath = decodeURIComponent(folderPath.replace("file://", ""))
-        }
-        return folderPath
-      }
-    } catch (error) {
-      // Skip invalid workspaces
-    }
-    return null
-  }
-
   /**
    * Focus a specific window by workspace path
    * Uses VSCode's openFolder command which is more reliable than AppleScript
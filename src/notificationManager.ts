@@ -0,0 +1,104 @@
+import * as vscode from "vscode"
+import { ClaudeCodeDecorator, StatusChangeEvent } from "./claudeCodeDecorator"
+import { outputChannel } from "./extension"
+import { getCurrentWorkspacePath } from "./remoteWorkspace"
+import { ClaudeCodeStatus } from "./types"
+import { WorkspaceItem } from "./workspacesProvider"
+
+// Statuses that can be notified, with their message
+const NOTIFICATION_MESSAGES: Partial<Record<ClaudeCodeStatus, string>> = {
+  [ClaudeCodeStatus.WaitingForInput]: "Claude is waiting for input",
+  [ClaudeCodeStatus.RecentlyFinished]: "task finished",
+  [ClaudeCodeStatus.Executing]: "Claude started working",
+  [ClaudeCodeStatus.NotRunning]: "Claude exited",
+}
+
+const SWITCH_ACTION = "Switch to workspace"
+
+/**
+ * Shows notifications when the Claude status of a workspace changes
+ * Only the statuses enabled in workspacesList.notifications.statuses are
+ * notified, at most once per workspace every notifications.minInterval seconds
+ */
+export class NotificationManager implements vscode.Disposable {
+  private lastNotified = new Map<string, number>() // Workspace path -> time of the last notification
+  private disposable: vscode.Disposable
+
+  constructor(
+    decorator: ClaudeCodeDecorator,
+    private getItem: (path: string) => WorkspaceItem | undefined,
+    private focusWorkspace: (item: WorkspaceItem) => Promise<void>,
+  ) {
+    this.disposable = decorator.onDidChangeStatus((event) =>
+      this.onStatusChanged(event),
+    )
+  }
+
+  private onStatusChanged(event: StatusChangeEvent): void {
+    // The first status of a workspace is not a transition
+    const status = event.current?.status
+    if (
+      !event.previous ||
+      status === undefined ||
+      !NOTIFICATION_MESSAGES[status]
+    ) {
+      return
+    }
+
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    const enabledStatuses = config.get<string[]>("notifications.statuses", [
+      "WaitingForInput",
+      "RecentlyFinished",
+    ])
+    if (!enabledStatuses.includes(ClaudeCodeStatus[status])) {
+      return
+    }
+
+    // Member folders are notified through their multi-root workspace
+    const item = this.getItem(event.path)
+    if (!item || item.itemType !== "workspace") {
+      return
+    }
+
+    // The user is already looking at this workspace
+    if (
+      vscode.window.state.focused &&
+      event.path === getCurrentWorkspacePath()
+    ) {
+      return
+    }
+
+    const minInterval = config.get<number>("notifications.minInterval", 60)
+    const now = Date.now()
+    const lastNotified = this.lastNotified.get(event.path)
+    if (lastNotified && now - lastNotified < minInterval * 1000) {
+      outputChannel.appendLine(
+        `[WorkspacesList] Notification rate limited for ${event.path}`,
+      )
+      return
+    }
+    this.lastNotified.set(event.path, now)
+
+    void this.notify(item, status)
+  }
+
+  private async notify(
+    item: WorkspaceItem,
+    status: ClaudeCodeStatus,
+  ): Promise<void> {
+    const message = `${item.label}: ${NOTIFICATION_MESSAGES[status]}`
+    const action =
+      status === ClaudeCodeStatus.WaitingForInput
+        ? await vscode.window.showWarningMessage(message, SWITCH_ACTION)
+        : await vscode.window.showInformationMessage(message, SWITCH_ACTION)
+
+    if (action === SWITCH_ACTION) {
+      // The item may have been replaced by a refresh since
+      await this.focusWorkspace(this.getItem(item.path) || item)
+    }
+  }
+
+  dispose(): void {
+    this.disposable.dispose()
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+const PROC_DIR = "/proc"
+
+/**
+ * List the PIDs of all running processes
+ */
+export async function listPids(): Promise<string[]> {
+  const entries = await fs.readdir(PROC_DIR)
+  return entries.filter((entry) => /^\d+$/.test(entry))
+}
+
+/**
+ * Read the argument vector of a process
+ * Returns an empty array for kernel threads or processes we can't inspect
+ */
+export async function readCmdline(pid: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(
+      path.join(PROC_DIR, pid, "cmdline"),
+      "utf-8",
+    )
+    return content.split("\0").filter((arg) => arg.length > 0)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Resolve the executable of a process (the /proc/<pid>/exe symlink)
+ */
+export async function readExe(pid: string): Promise<string | null> {
+  try {
+    return await fs.readlink(path.join(PROC_DIR, pid, "exe"))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolve the current working directory of a process
+ */
+export async function readCwd(pid: string): Promise<string | null> {
+  try {
+    return await fs.readlink(path.join(PROC_DIR, pid, "cwd"))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolve the targets of all file descriptors opened by a process
+ * Only works for processes owned by the current user
+ */
+export async function readFdTargets(pid: string): Promise<string[]> {
+  const fdDir = path.join(PROC_DIR, pid, "fd")
+  let fds: string[]
+  try {
+    fds = await fs.readdir(fdDir)
+  } catch {
+    return []
+  }
+
+  const targets = await Promise.all(
+    fds.map(async (fd) => {
+      try {
+        return await fs.readlink(path.join(fdDir, fd))
+      } catch {
+        // The descriptor was closed between readdir and readlink
+        return null
+      }
+    }),
+  )
+  return targets.filter((t) => t !== null) as string[]
+}
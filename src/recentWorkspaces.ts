@@ -0,0 +1,188 @@
+import { execFile } from "child_process"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { promisify } from "util"
+import { getEditorApps } from "./editorApps"
+import { outputChannel } from "./extension"
+import {
+  getWorkspaceFromHash,
+  parseStoredWorkspace,
+  StoredWorkspace,
+} from "./workspaceStorage"
+
+const execFileAsync = promisify(execFile)
+
+// Key of the recently opened list in the editor's global state database
+const RECENTLY_OPENED_KEY = "history.recentlyOpenedPathsList"
+
+export interface RecentWorkspace extends StoredWorkspace {
+  appName: string
+
+  /**
+   * Last write to the workspace storage, undefined for workspaces only
+   * found in the recently opened history
+   */
+  lastUsed?: number
+}
+
+/**
+ * List the workspaces found in the workspace storage of an app
+ */
+async function getStoredWorkspaces(
+  appName: string,
+  storagePath: string,
+): Promise<RecentWorkspace[]> {
+  const storageDir = path.join(process.env.HOME || "", storagePath)
+  let hashes: string[]
+  try {
+    hashes = await fs.readdir(storageDir)
+  } catch {
+    // App not installed
+    return []
+  }
+
+  const workspaces = await Promise.all(
+    hashes.map(async (hash) => {
+      const workspace = await getWorkspaceFromHash(hash, storagePath)
+      if (!workspace) {
+        return null
+      }
+      // state.vscdb is written while the window is open
+      const lastUsed = await fs
+        .stat(path.join(storageDir, hash, "state.vscdb"))
+        .then((stats) => stats.mtimeMs)
+        .catch(() => undefined)
+      return { ...workspace, appName, lastUsed }
+    }),
+  )
+  return workspaces.filter((w) => w !== null) as RecentWorkspace[]
+}
+
+/**
+ * List the workspaces of the recently opened history of an app, most recent
+ * first (the history is kept in the global state database, read with the
+ * sqlite3 command line tool when it is installed)
+ */
+async function getHistoryWorkspaces(
+  appName: string,
+  storagePath: string,
+): Promise<RecentWorkspace[]> {
+  const databasePath = path.join(
+    process.env.HOME || "",
+    path.dirname(storagePath),
+    "globalStorage",
+    "state.vscdb",
+  )
+
+  let entries: Array<{ folderUri?: string; workspace?: { configPath: string } }>
+  try {
+    await fs.access(databasePath)
+    const { stdout } = await execFileAsync(
+      "sqlite3",
+      [
+        "-readonly",
+        databasePath,
+        `SELECT value FROM ItemTable WHERE key = '${RECENTLY_OPENED_KEY}'`,
+      ],
+      { timeout: 5000 },
+    )
+    entries = stdout.trim() ? JSON.parse(stdout).entries || [] : []
+  } catch (error: unknown) {
+    // No database or no sqlite3 tool: the workspace storage is still read
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      outputChannel.appendLine(
+        `[WorkspacesList] Could not read ${appName} recently opened history: ${error}`,
+      )
+    }
+    return []
+  }
+
+  const workspaces = await Promise.all(
+    entries.map(async (entry) => {
+      // Recently opened files (fileUri) are not workspaces
+      const workspace = await parseStoredWorkspace({
+        folder: entry.folderUri,
+        workspace: entry.workspace?.configPath,
+      })
+      return workspace ? { ...workspace, appName } : null
+    }),
+  )
+  return workspaces.filter((w) => w !== null) as RecentWorkspace[]
+}
+
+/**
+ * Check if a workspace can still be opened
+ * Remote workspaces can't be checked and are kept
+ */
+async function exists(workspace: RecentWorkspace): Promise<boolean> {
+  if (workspace.remote) {
+    return true
+  }
+  try {
+    await fs.access(workspace.workspacePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the workspaces used recently in any editor app, most recent first
+ * Built from the workspace storage (sorted by last use) and the recently
+ * opened history (for workspaces whose storage was cleaned up)
+ * Workspaces in openPaths and workspaces deleted since are skipped
+ */
+export async function getRecentWorkspaces(
+  openPaths: Set<string>,
+  maxItems: number,
+): Promise<RecentWorkspace[]> {
+  const byPath = new Map<string, RecentWorkspace>()
+
+  for (const app of getEditorApps()) {
+    for (const workspace of await getStoredWorkspaces(
+      app.name,
+      app.storagePath,
+    )) {
+      // The same workspace may have been opened in several apps
+      const known = byPath.get(workspace.workspacePath)
+      if (!known || (workspace.lastUsed || 0) > (known.lastUsed || 0)) {
+        byPath.set(workspace.workspacePath, workspace)
+      }
+    }
+  }
+
+  for (const app of getEditorApps()) {
+    for (const workspace of await getHistoryWorkspaces(
+      app.name,
+      app.storagePath,
+    )) {
+      if (!byPath.has(workspace.workspacePath)) {
+        byPath.set(workspace.workspacePath, workspace)
+      }
+    }
+  }
+
+  // Workspaces without a last use time keep the history order, after the others
+  const candidates = [...byPath.values()]
+    .filter((w) => !openPaths.has(w.workspacePath))
+    .sort((a, b) => {
+      if (a.lastUsed === undefined || b.lastUsed === undefined) {
+        return (
+          (a.lastUsed === undefined ? 1 : 0) -
+          (b.lastUsed === undefined ? 1 : 0)
+        )
+      }
+      return b.lastUsed - a.lastUsed
+    })
+
+  const recent: RecentWorkspace[] = []
+  for (const workspace of candidates) {
+    if (recent.length >= maxItems) {
+      break
+    }
+    if (await exists(workspace)) {
+      recent.push(workspace)
+    }
+  }
+  return recent
+}
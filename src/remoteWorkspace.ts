@@ -0,0 +1,181 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+export interface RemoteInfo {
+  /**
+   * Remote kind, the authority prefix (ssh-remote, wsl, dev-container...)
+   */
+  type: string
+
+  /**
+   * Host name, WSL distro or container name
+   */
+  host: string
+
+  /**
+   * Path of the workspace on the remote
+   */
+  remotePath: string
+
+  /**
+   * The full vscode-remote:// URI, used to reopen the window
+   */
+  uri: string
+
+  /**
+   * Local folder the container was built from (dev containers only)
+   */
+  hostPath?: string
+}
+
+const REMOTE_SCHEME = "vscode-remote://"
+
+const REMOTE_LABELS: Record<string, string> = {
+  "ssh-remote": "SSH",
+  wsl: "WSL",
+  "dev-container": "Dev Container",
+  "attached-container": "Container",
+  codespaces: "Codespaces",
+  tunnel: "Tunnel",
+}
+
+/**
+ * Decode a hex-encoded authority value
+ * Dev containers (and SSH hosts with special characters) hex-encode a JSON
+ * description of the target in the authority
+ */
+function decodeHexAuthority(value: string): unknown {
+  if (!/^([0-9a-f]{2})+$/i.test(value)) {
+    return null
+  }
+
+  const decoded = Buffer.from(value, "hex").toString("utf-8")
+  try {
+    return JSON.parse(decoded)
+  } catch {
+    // Older dev container URIs encode the host folder path directly
+    // (plain host names can also look like hex, callers check the type)
+    return decoded
+  }
+}
+
+/**
+ * Parse a vscode-remote:// URI
+ * e.g. vscode-remote://ssh-remote+devbox/home/me/project
+ */
+export function parseRemoteUri(uri: string): RemoteInfo | null {
+  if (!uri.startsWith(REMOTE_SCHEME)) {
+    return null
+  }
+
+  const rest = uri.slice(REMOTE_SCHEME.length)
+  const slashIndex = rest.indexOf("/")
+  const authority = decodeURIComponent(
+    slashIndex === -1 ? rest : rest.slice(0, slashIndex),
+  )
+  const remotePath = decodeURIComponent(
+    slashIndex === -1 ? "/" : rest.slice(slashIndex),
+  )
+
+  const plusIndex = authority.indexOf("+")
+  const type = plusIndex === -1 ? authority : authority.slice(0, plusIndex)
+  const value = plusIndex === -1 ? "" : authority.slice(plusIndex + 1)
+
+  let host = value
+  let hostPath: string | undefined
+
+  const decoded = decodeHexAuthority(value)
+  if (typeof decoded === "string" && type === "dev-container") {
+    hostPath = decoded
+    host = path.basename(decoded)
+  } else if (decoded && typeof decoded === "object") {
+    const data = decoded as Record<string, unknown>
+    if (typeof data.hostPath === "string") {
+      hostPath = data.hostPath
+      host = path.basename(data.hostPath)
+    } else if (typeof data.hostName === "string") {
+      host = data.hostName
+    } else if (typeof data.containerName === "string") {
+      host = data.containerName.replace(/^\//, "")
+    }
+  }
+
+  return { type, host, remotePath, uri, hostPath }
+}
+
+/**
+ * Key identifying a remote workspace in the tree and status caches
+ * Prefixed with the authority so it never collides with a local path
+ */
+export function getRemoteKey(remote: RemoteInfo): string {
+  return path.posix.join(
+    "/",
+    `${remote.type}+${remote.host}`,
+    remote.remotePath,
+  )
+}
+
+/**
+ * Get the path identifying the workspace of the current window
+ * Matches the paths of the tree items (folder, .code-workspace file or remote key)
+ */
+export function getCurrentWorkspacePath(): string | undefined {
+  const uri =
+    vscode.workspace.workspaceFile ??
+    vscode.workspace.workspaceFolders?.[0]?.uri
+  if (!uri) {
+    return undefined
+  }
+  if (uri.scheme === "file") {
+    return uri.fsPath
+  }
+  const remote = parseRemoteUri(uri.toString())
+  return remote ? getRemoteKey(remote) : undefined
+}
+
+/**
+ * Get the remote indicator shown next to a workspace
+ * e.g. "SSH: devbox", "WSL: Ubuntu"
+ */
+export function getRemoteLabel(remote: RemoteInfo): string {
+  const kind = REMOTE_LABELS[remote.type] || remote.type
+  return remote.host ? `${kind}: ${remote.host}` : kind
+}
+
+/**
+ * Find a local folder mirroring a remote workspace
+ * - Dev containers: the host folder the container was opened from
+ * - Otherwise: the workspacesList.remoteMirrors setting, which maps
+ *   "<host>:<remote path prefix>" to a local path prefix
+ */
+export function resolveLocalMirror(remote: RemoteInfo): string | undefined {
+  const config = vscode.workspace.getConfiguration("workspacesList")
+  const mirrors = config.get<Record<string, string>>("remoteMirrors", {})
+
+  // Longest prefix wins
+  const prefixes = Object.keys(mirrors).sort((a, b) => b.length - a.length)
+  for (const key of prefixes) {
+    const separatorIndex = key.indexOf(":")
+    if (separatorIndex === -1) {
+      continue
+    }
+
+    const host = key.slice(0, separatorIndex)
+    const remotePrefix = key.slice(separatorIndex + 1).replace(/\/+$/, "")
+    if (host !== remote.host) {
+      continue
+    }
+
+    if (
+      remote.remotePath === remotePrefix ||
+      remote.remotePath.startsWith(remotePrefix + "/")
+    ) {
+      return path.join(
+        mirrors[key],
+        remote.remotePath.slice(remotePrefix.length),
+      )
+    }
+  }
+
+  return remote.hostPath
+}
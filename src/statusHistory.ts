@@ -0,0 +1,204 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { ClaudeCodeDecorator, StatusChangeEvent } from "./claudeCodeDecorator"
+import { outputChannel } from "./extension"
+import { ClaudeCodeStatus, getStatusUrgency } from "./types"
+
+interface StatusHistoryEntry {
+  status: string // ClaudeCodeStatus name (stable across enum changes) or CLOSED_STATUS
+  timestamp: number
+}
+
+export interface StatusPeriod {
+  status: ClaudeCodeStatus
+  start: number
+  end: number // Now for the current period
+  closed: boolean // Ended by the workspace closing
+}
+
+// Recorded when a workspace is no longer listed, ends its last period
+const CLOSED_STATUS = "Closed"
+
+// Sparkline bars, from the most to the least urgent status
+const SPARKLINE_BARS = ["█", "▇", "▅", "▄", "▂", "▁", "▁"]
+const SPARKLINE_SLOTS = 24
+const SPARKLINE_SLOT_MS = 5 * 60 * 1000 // 24 slots of 5 minutes = last 2 hours
+
+// Delay before writing recorded transitions
+const SAVE_DELAY_MS = 2000
+
+/**
+ * Persistent record of the status transitions of every workspace
+ * Stored in the extension's global storage (shared by all windows) and
+ * pruned after workspacesList.statusHistoryDays days
+ */
+export class StatusHistory implements vscode.Disposable {
+  private entries: Record<string, StatusHistoryEntry[]> = {}
+  private readonly filePath: string
+  private saveTimeout: NodeJS.Timeout | undefined
+  private disposable: vscode.Disposable
+
+  constructor(storageUri: vscode.Uri, decorator: ClaudeCodeDecorator) {
+    this.filePath = path.join(storageUri.fsPath, "status-history.json")
+    this.disposable = decorator.onDidChangeStatus((event) => this.record(event))
+  }
+
+  /**
+   * Load the recorded history
+   */
+  async load(): Promise<void> {
+    this.entries = this.merge(this.entries, await this.readFile())
+  }
+
+  /**
+   * Get the status periods of a path, oldest first
+   * There is no period while the workspace is closed
+   */
+  getPeriods(itemPath: string): StatusPeriod[] {
+    const entries = this.entries[itemPath] || []
+    return entries
+      .map((entry, i) => ({
+        status: ClaudeCodeStatus[entry.status as keyof typeof ClaudeCodeStatus],
+        start: entry.timestamp,
+        end: entries[i + 1]?.timestamp ?? Date.now(),
+        closed: entries[i + 1]?.status === CLOSED_STATUS,
+      }))
+      .filter((period) => period.status !== undefined)
+  }
+
+  /**
+   * Get a sparkline of the last 2 hours of a path
+   * Each bar is the most urgent status of a 5 minute slot
+   */
+  getSparkline(itemPath: string): string | undefined {
+    const periods = this.getPeriods(itemPath)
+    if (periods.length === 0) {
+      return undefined
+    }
+
+    const now = Date.now()
+    let sparkline = ""
+    for (let slot = SPARKLINE_SLOTS; slot > 0; slot--) {
+      const slotStart = now - slot * SPARKLINE_SLOT_MS
+      const slotEnd = slotStart + SPARKLINE_SLOT_MS
+      const urgencies = periods
+        .filter((p) => p.start < slotEnd && p.end > slotStart)
+        .map((p) => getStatusUrgency(p.status))
+      // Blank before the first recorded status
+      sparkline +=
+        urgencies.length > 0
+          ? SPARKLINE_BARS[
+              Math.min(Math.min(...urgencies), SPARKLINE_BARS.length - 1)
+            ]
+          : " "
+    }
+    return sparkline
+  }
+
+  private record(event: StatusChangeEvent): void {
+    let status: string
+    if (event.current) {
+      status = ClaudeCodeStatus[event.current.status]
+    } else if (event.closed) {
+      status = CLOSED_STATUS
+    } else {
+      return
+    }
+
+    const entries = this.entries[event.path] || (this.entries[event.path] = [])
+    if (entries[entries.length - 1]?.status === status) {
+      // Same status as before a restart
+      return
+    }
+
+    entries.push({ status, timestamp: Date.now() })
+    this.scheduleSave()
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimeout) {
+      return
+    }
+    this.saveTimeout = setTimeout(() => {
+      this.saveTimeout = undefined
+      void this.save()
+    }, SAVE_DELAY_MS)
+  }
+
+  /**
+   * Write the history, merged with the transitions recorded by other windows
+   */
+  private async save(): Promise<void> {
+    try {
+      this.entries = this.prune(this.merge(await this.readFile(), this.entries))
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.writeFile(this.filePath, JSON.stringify(this.entries))
+    } catch (error) {
+      outputChannel.appendLine(
+        `[WorkspacesList] Failed to save status history: ${error}`,
+      )
+    }
+  }
+
+  private async readFile(): Promise<Record<string, StatusHistoryEntry[]>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf-8"))
+    } catch {
+      // No history recorded yet
+      return {}
+    }
+  }
+
+  /**
+   * Merge two histories, entries are deduplicated and sorted by time
+   */
+  private merge(
+    a: Record<string, StatusHistoryEntry[]>,
+    b: Record<string, StatusHistoryEntry[]>,
+  ): Record<string, StatusHistoryEntry[]> {
+    const merged: Record<string, StatusHistoryEntry[]> = {}
+    for (const itemPath of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const byKey = new Map<string, StatusHistoryEntry>()
+      for (const entry of [...(a[itemPath] || []), ...(b[itemPath] || [])]) {
+        byKey.set(`${entry.timestamp}:${entry.status}`, entry)
+      }
+      merged[itemPath] = [...byKey.values()].sort(
+        (x, y) => x.timestamp - y.timestamp,
+      )
+    }
+    return merged
+  }
+
+  /**
+   * Drop entries older than the retention period
+   * The last entry of a path is kept, it is still its current status (or the
+   * time it was closed)
+   */
+  private prune(
+    entries: Record<string, StatusHistoryEntry[]>,
+  ): Record<string, StatusHistoryEntry[]> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    const days = config.get<number>("statusHistoryDays", 7)
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000
+
+    const pruned: Record<string, StatusHistoryEntry[]> = {}
+    for (const [itemPath, list] of Object.entries(entries)) {
+      const recent = list.filter(
+        (entry, i) => entry.timestamp >= cutoff || i === list.length - 1,
+      )
+      if (recent.length > 0) {
+        pruned[itemPath] = recent
+      }
+    }
+    return pruned
+  }
+
+  dispose(): void {
+    this.disposable.dispose()
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      void this.save()
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import * as vscode from "vscode"
+import { StatusHistory, StatusPeriod } from "./statusHistory"
+import { ClaudeCodeStatus, STATUS_LABELS } from "./types"
+
+/**
+ * Format a time of day without seconds (e.g. "10:02")
+ */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+/**
+ * Format a duration (e.g. "15 min", "2 h 05")
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 1000 / 60)
+  if (minutes < 60) {
+    return `${minutes} min`
+  }
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, "0")}`
+}
+
+/**
+ * Read-only markdown timeline of the recorded statuses of a workspace
+ * Documents use the claude-timeline scheme, the workspace path is in the query
+ */
+export class StatusTimelineProvider
+  implements vscode.TextDocumentContentProvider
+{
+  static readonly scheme = "claude-timeline"
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this._onDidChange.event
+
+  constructor(private statusHistory: StatusHistory) {}
+
+  /**
+   * Open the timeline of a workspace as a markdown preview
+   */
+  async open(itemPath: string, name: string): Promise<void> {
+    const uri = vscode.Uri.from({
+      scheme: StatusTimelineProvider.scheme,
+      path: `/${name.replace(/[\\/]/g, " ")} Activity.md`,
+      query: itemPath,
+    })
+    // Re-render if the timeline is already open
+    this._onDidChange.fire(uri)
+    await vscode.commands.executeCommand("markdown.showPreview", uri)
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const name = uri.path.slice(1).replace(/\.md$/, "")
+    const periods = this.statusHistory
+      .getPeriods(uri.query)
+      .filter((p) => p.status !== ClaudeCodeStatus.NoSession)
+
+    const output = [`# ${name}`, "", `_\`${uri.query}\`_`, ""]
+    if (periods.length === 0) {
+      output.push("No Claude activity recorded yet.")
+      return output.join("\n") + "\n"
+    }
+
+    // Most recent day first, periods in chronological order within a day
+    const days = new Map<string, StatusPeriod[]>()
+    for (const period of periods) {
+      const day = new Date(period.start).toLocaleDateString(undefined, {
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+      })
+      days.set(day, [...(days.get(day) || []), period])
+    }
+
+    for (const [day, dayPeriods] of [...days.entries()].reverse()) {
+      output.push(`## ${day}`, "")
+      for (const period of dayPeriods) {
+        const closed = period.closed ? ", then closed" : ""
+        output.push(
+          `- **${STATUS_LABELS[period.status]}** ${formatTime(period.start)}–${formatTime(period.end)} (${formatDuration(period.end - period.start)})${closed}`,
+        )
+      }
+      output.push("")
+    }
+
+    return output.join("\n")
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+  }
+}
@@ -0,0 +1,90 @@
+import * as assert from "assert"
+import * as fs from "fs/promises"
+import * as http from "http"
+import { AddressInfo } from "net"
+import * as os from "os"
+import * as path from "path"
+import { after, before, describe, it } from "node:test"
+import { downloadIcon, getCachedIcon, MAX_ICON_BYTES } from "../urlIconCache"
+
+// Local stand-in for the icon hosts
+function startServer(): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    switch (request.url) {
+      case "/icon.svg":
+        response.writeHead(200, { "content-type": "image/svg+xml" })
+        response.end("<svg/>")
+        break
+      case "/moved.svg":
+        response.writeHead(302, { location: "/icon.svg" })
+        response.end()
+        break
+      case "/page.html":
+        response.writeHead(200, { "content-type": "text/html" })
+        response.end("<html></html>")
+        break
+      case "/large.png":
+        response.writeHead(200, { "content-type": "image/png" })
+        response.end(Buffer.alloc(MAX_ICON_BYTES + 1))
+        break
+      default:
+        response.writeHead(404)
+        response.end()
+    }
+  })
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  )
+}
+
+describe("URL icon cache", () => {
+  let server: http.Server
+  let baseUrl: string
+  let cacheDir: string
+
+  before(async () => {
+    server = await startServer()
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "url-icons-"))
+  })
+
+  after(async () => {
+    server.close()
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  it("downloads an image and serves it from disk", async () => {
+    const url = `${baseUrl}/icon.svg`
+    const filePath = await downloadIcon(cacheDir, url)
+    assert.strictEqual(path.extname(filePath), ".svg")
+    assert.strictEqual(await fs.readFile(filePath, "utf-8"), "<svg/>")
+    assert.strictEqual((await getCachedIcon(cacheDir, url))?.filePath, filePath)
+  })
+
+  it("follows redirects", async () => {
+    const filePath = await downloadIcon(cacheDir, `${baseUrl}/moved.svg`)
+    assert.strictEqual(await fs.readFile(filePath, "utf-8"), "<svg/>")
+  })
+
+  it("rejects content that isn't an image", async () => {
+    const url = `${baseUrl}/page.html`
+    await assert.rejects(downloadIcon(cacheDir, url), /Not an image/)
+    assert.strictEqual(await getCachedIcon(cacheDir, url), undefined)
+  })
+
+  it("rejects images over the size limit", async () => {
+    const url = `${baseUrl}/large.png`
+    await assert.rejects(downloadIcon(cacheDir, url), /Larger than/)
+    assert.strictEqual(await getCachedIcon(cacheDir, url), undefined)
+  })
+
+  it("keeps the cached copy when the host is offline", async () => {
+    const url = `${baseUrl}/icon.svg`
+    const filePath = await downloadIcon(cacheDir, url)
+    await new Promise((resolve) => server.close(resolve))
+
+    await assert.rejects(downloadIcon(cacheDir, url))
+    assert.strictEqual((await getCachedIcon(cacheDir, url))?.filePath, filePath)
+    assert.strictEqual(await fs.readFile(filePath, "utf-8"), "<svg/>")
+  })
+})
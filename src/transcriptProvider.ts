@@ -0,0 +1,235 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+
+// Tool results longer than this are truncated in the transcript
+const MAX_TOOL_RESULT_LENGTH = 5000
+
+interface ContentBlock {
+  type?: string
+  text?: string
+  thinking?: string
+  name?: string
+  input?: unknown
+  content?: unknown
+  is_error?: boolean
+}
+
+/**
+ * Read-only markdown view of a Claude Code conversation (.jsonl)
+ * Documents use the claude-transcript scheme, the file path is in the query
+ */
+export class TranscriptProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = "claude-transcript"
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this._onDidChange.event
+
+  /**
+   * Get the transcript URI of a conversation file
+   */
+  static getUri(filePath: string, title: string): vscode.Uri {
+    // The path only provides the editor tab title
+    const safeTitle = title.replace(/[\\/]/g, " ").slice(0, 60)
+    return vscode.Uri.from({
+      scheme: TranscriptProvider.scheme,
+      path: `/${safeTitle}.md`,
+      query: filePath,
+    })
+  }
+
+  /**
+   * Open the transcript of a conversation file as a markdown preview
+   */
+  async open(filePath: string, title: string): Promise<void> {
+    const uri = TranscriptProvider.getUri(filePath, title)
+    // Re-render if the transcript is already open, the conversation may have grown
+    this._onDidChange.fire(uri)
+    await vscode.commands.executeCommand("markdown.showPreview", uri)
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const filePath = uri.query
+    try {
+      const content = await fs.readFile(filePath, "utf-8")
+      return this.renderTranscript(filePath, content)
+    } catch (error) {
+      return `# Transcript unavailable\n\nCould not read \`${filePath}\`: ${error}\n`
+    }
+  }
+
+  /**
+   * Render a conversation as markdown
+   */
+  private renderTranscript(filePath: string, content: string): string {
+    const sessionId = path.basename(filePath, ".jsonl")
+    const output: string[] = []
+    let cwd: string | undefined
+    let lastRole: string | undefined
+    let messageCount = 0
+
+    for (const line of content.split("\n")) {
+      let entry
+      try {
+        entry = JSON.parse(line)
+      } catch {
+        continue
+      }
+
+      if (entry.type === "summary" && typeof entry.summary === "string") {
+        output.push(`> **Summary:** ${entry.summary}`, "")
+        continue
+      }
+
+      if (
+        (entry.type !== "user" && entry.type !== "assistant") ||
+        !entry.message ||
+        entry.isMeta
+      ) {
+        continue
+      }
+
+      cwd = cwd || entry.cwd
+      messageCount++
+
+      const blocks = this.renderContent(entry.message.content)
+      if (blocks.length === 0) {
+        continue
+      }
+
+      // Tool results are sent back as user messages, but belong to the
+      // assistant's turn
+      const isToolResult =
+        Array.isArray(entry.message.content) &&
+        entry.message.content.every(
+          (b: ContentBlock) => b?.type === "tool_result",
+        )
+      const role = isToolResult ? "assistant" : entry.type
+
+      // Claude Code writes one entry per content block, only show a header
+      // when the speaker changes
+      if (role !== lastRole) {
+        const time = entry.timestamp
+          ? ` · ${new Date(entry.timestamp).toLocaleTimeString()}`
+          : ""
+        output.push(
+          "---",
+          "",
+          role === "user" ? `## 👤 User${time}` : `## 🤖 Claude${time}`,
+          "",
+        )
+        lastRole = role
+      }
+
+      output.push(...blocks)
+    }
+
+    const header = [
+      `# Claude Code Transcript`,
+      "",
+      `_Session \`${sessionId}\`${cwd ? ` · \`${cwd}\`` : ""} · ${messageCount} messages_`,
+      "",
+    ]
+
+    return [...header, ...output].join("\n")
+  }
+
+  /**
+   * Render the content of a message (string or content blocks)
+   */
+  private renderContent(content: unknown): string[] {
+    if (typeof content === "string") {
+      return content.trim() ? [content.trim(), ""] : []
+    }
+
+    if (!Array.isArray(content)) {
+      return []
+    }
+
+    const output: string[] = []
+    for (const block of content as ContentBlock[]) {
+      switch (block?.type) {
+        case "text":
+          if (block.text?.trim()) {
+            output.push(block.text.trim(), "")
+          }
+          break
+
+        case "thinking":
+          if (block.thinking?.trim()) {
+            output.push(
+              "<details><summary>Thinking</summary>",
+              "",
+              block.thinking.trim(),
+              "",
+              "</details>",
+              "",
+            )
+          }
+          break
+
+        case "tool_use":
+          output.push(
+            `**🔧 ${block.name || "Tool"}**`,
+            "",
+            this.codeBlock(JSON.stringify(block.input ?? {}, null, 2), "json"),
+            "",
+          )
+          break
+
+        case "tool_result": {
+          const result = this.toolResultText(block.content)
+          const truncated =
+            result.length > MAX_TOOL_RESULT_LENGTH
+              ? `${result.slice(0, MAX_TOOL_RESULT_LENGTH)}\n… (${result.length - MAX_TOOL_RESULT_LENGTH} more characters)`
+              : result
+          output.push(
+            `<details><summary>${block.is_error ? "❌ Tool error" : "Tool result"}</summary>`,
+            "",
+            this.codeBlock(truncated),
+            "",
+            "</details>",
+            "",
+          )
+          break
+        }
+
+        case "image":
+          output.push("_[image]_", "")
+          break
+      }
+    }
+    return output
+  }
+
+  /**
+   * Get the text of a tool result (string or content blocks)
+   */
+  private toolResultText(content: unknown): string {
+    if (typeof content === "string") {
+      return content
+    }
+    if (Array.isArray(content)) {
+      return (content as ContentBlock[])
+        .map((b) => (b?.type === "text" ? b.text || "" : `[${b?.type}]`))
+        .join("\n")
+    }
+    return ""
+  }
+
+  /**
+   * Wrap text in a fenced code block longer than any backtick run it contains
+   */
+  private codeBlock(text: string, language: string = ""): string {
+    const longestRun = Math.max(
+      2,
+      ...(text.match(/`+/g) || []).map((run) => run.length),
+    )
+    const fence = "`".repeat(longestRun + 1)
+    return `${fence}${language}\n${text}\n${fence}`
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+  }
+}
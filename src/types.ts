@@ -5,10 +5,71 @@ export enum ClaudeCodeStatus {
   Executing, // Claude is actively working RIGHT NOW (▶)
   WaitingForInput, // Claude is waiting for user permission/approval (⚠️)
   RecentlyFinished, // Task finished recently, waiting for next prompt (✓ gradient)
+  Unknown, // Remote workspace without a local mirror, status can't be read (?)
 }
 
 export interface ClaudeCodeStatusInfo {
   status: ClaudeCodeStatus
   lastMessageTime?: number // For gradient calculation
   conversationCount?: number // Number of active conversations
+  lastActivityTime?: number // Last message of any conversation, for sorting
+}
+
+export interface ClaudeSessionInfo {
+  sessionId: string // Conversation file name without .jsonl
+  filePath: string // Conversation .jsonl file in ~/.claude/projects
+  firstPrompt?: string // First user prompt, used as the session label
+  lastModified: number // Last activity (last message timestamp)
+  messageCount: number // User and assistant messages in the conversation
+  status: ClaudeCodeStatusInfo
+  usage: ModelUsage // Token usage of the whole conversation
+}
+
+/**
+ * Human readable status names
+ */
+export const STATUS_LABELS: Record<ClaudeCodeStatus, string> = {
+  [ClaudeCodeStatus.WaitingForInput]: "⚠️ Waiting for input",
+  [ClaudeCodeStatus.Executing]: "▶ Executing",
+  [ClaudeCodeStatus.RecentlyFinished]: "◉ Finished",
+  [ClaudeCodeStatus.Running]: "● Idle",
+  [ClaudeCodeStatus.NotRunning]: "○ Not running",
+  [ClaudeCodeStatus.NoSession]: "No session",
+  [ClaudeCodeStatus.Unknown]: "? Unknown",
+}
+
+/**
+ * Statuses ordered from most to least urgent
+ */
+const STATUS_URGENCY: ClaudeCodeStatus[] = [
+  ClaudeCodeStatus.WaitingForInput,
+  ClaudeCodeStatus.Executing,
+  ClaudeCodeStatus.RecentlyFinished,
+  ClaudeCodeStatus.Running,
+  ClaudeCodeStatus.NotRunning,
+  ClaudeCodeStatus.Unknown,
+  ClaudeCodeStatus.NoSession,
+]
+
+/**
+ * Get the urgency rank of a status (0 = most urgent)
+ */
+export function getStatusUrgency(status: ClaudeCodeStatus | undefined): number {
+  const index = status === undefined ? -1 : STATUS_URGENCY.indexOf(status)
+  return index === -1 ? STATUS_URGENCY.length : index
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheCreationTokens: number // Tokens written to the prompt cache
+  cacheReadTokens: number // Tokens read from the prompt cache
+}
+
+// Token usage per model (model id -> usage)
+export type ModelUsage = Record<string, TokenUsage>
+
+export interface UsageSummary {
+  today: ModelUsage // Since local midnight
+  week: ModelUsage // Since Monday (local time)
 }
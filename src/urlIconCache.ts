@@ -0,0 +1,154 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as http from "http"
+import * as https from "https"
+import * as path from "path"
+
+// Icons larger than this are rejected
+export const MAX_ICON_BYTES = 1024 * 1024
+
+const DOWNLOAD_TIMEOUT = 10000 // ms
+const MAX_REDIRECTS = 3
+
+// Accepted content types and the extension the icons are saved with
+// (the extension tells the editor how to display the file)
+const ICON_CONTENT_TYPES: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "image/x-icon": ".ico",
+  "image/vnd.microsoft.icon": ".ico",
+}
+
+export interface CachedIcon {
+  filePath: string
+  fetchedAt: number // Time of the download
+}
+
+/**
+ * Download an icon, following redirects
+ * Rejects responses that aren't images or are larger than MAX_ICON_BYTES
+ */
+function fetchIcon(
+  url: string,
+  redirects = 0,
+): Promise<{ content: Buffer; extension: string }> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith("https://") ? https : http
+    const request = client.get(
+      url,
+      { timeout: DOWNLOAD_TIMEOUT },
+      (response) => {
+        const status = response.statusCode || 0
+
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume()
+          if (redirects >= MAX_REDIRECTS) {
+            reject(new Error("Too many redirects"))
+            return
+          }
+          const location = new URL(response.headers.location, url).toString()
+          fetchIcon(location, redirects + 1).then(resolve, reject)
+          return
+        }
+
+        if (status !== 200) {
+          response.resume()
+          reject(new Error(`HTTP ${status}`))
+          return
+        }
+
+        const contentType = (response.headers["content-type"] || "")
+          .split(";")[0]
+          .trim()
+          .toLowerCase()
+        const extension = ICON_CONTENT_TYPES[contentType]
+        if (!extension) {
+          response.resume()
+          reject(
+            new Error(`Not an image (${contentType || "no content type"})`),
+          )
+          return
+        }
+
+        if (Number(response.headers["content-length"]) > MAX_ICON_BYTES) {
+          response.destroy()
+          reject(new Error(`Larger than ${MAX_ICON_BYTES} bytes`))
+          return
+        }
+
+        const chunks: Buffer[] = []
+        let size = 0
+        response.on("data", (chunk: Buffer) => {
+          size += chunk.length
+          if (size > MAX_ICON_BYTES) {
+            response.destroy()
+            reject(new Error(`Larger than ${MAX_ICON_BYTES} bytes`))
+            return
+          }
+          chunks.push(chunk)
+        })
+        response.on("end", () =>
+          resolve({ content: Buffer.concat(chunks), extension }),
+        )
+        response.on("error", reject)
+      },
+    )
+
+    request.on("timeout", () => request.destroy(new Error("Timed out")))
+    request.on("error", reject)
+  })
+}
+
+/**
+ * Name of the cached file of a URL icon, without extension (the extension
+ * depends on the content type)
+ */
+function getCacheName(url: string): string {
+  return createHash("sha1").update(url).digest("hex")
+}
+
+/**
+ * Find the cached copy of a URL icon
+ */
+export async function getCachedIcon(
+  cacheDir: string,
+  url: string,
+): Promise<CachedIcon | undefined> {
+  let files: string[]
+  try {
+    files = await fs.readdir(cacheDir)
+  } catch {
+    return undefined
+  }
+  const name = getCacheName(url)
+  const file = files.find((f) => path.parse(f).name === name)
+  if (!file) {
+    return undefined
+  }
+  const filePath = path.join(cacheDir, file)
+  const stats = await fs.stat(filePath)
+  return { filePath, fetchedAt: stats.mtimeMs }
+}
+
+/**
+ * Download a URL icon into the cache, replacing the previous copy
+ * Rejects when the download fails, the previous copy is then kept
+ */
+export async function downloadIcon(
+  cacheDir: string,
+  url: string,
+): Promise<string> {
+  const { content, extension } = await fetchIcon(url)
+  const previous = await getCachedIcon(cacheDir, url)
+  await fs.mkdir(cacheDir, { recursive: true })
+  const filePath = path.join(cacheDir, getCacheName(url) + extension)
+  await fs.writeFile(filePath, content)
+  if (previous && previous.filePath !== filePath) {
+    // The content type changed
+    await fs.rm(previous.filePath, { force: true })
+  }
+  return filePath
+}
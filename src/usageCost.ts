@@ -0,0 +1,184 @@
+import * as vscode from "vscode"
+import { ModelUsage, TokenUsage } from "./types"
+
+export interface ModelPricing {
+  input: number // USD per million input tokens
+  output: number // USD per million output tokens
+  cacheWrite: number // USD per million cache creation tokens
+  cacheRead: number // USD per million cache read tokens
+}
+
+/**
+ * Built-in prices, keyed by model id prefix (the longest matching prefix wins)
+ * Override or extend with the workspacesList.modelPricing setting
+ */
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-opus": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-2025": {
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  "claude-opus-4-1": {
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": {
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  "claude-3-5-sonnet": {
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  "claude-haiku": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": {
+    input: 0.8,
+    output: 4,
+    cacheWrite: 1,
+    cacheRead: 0.08,
+  },
+  "claude-3-haiku": {
+    input: 0.25,
+    output: 1.25,
+    cacheWrite: 0.3,
+    cacheRead: 0.03,
+  },
+}
+
+/**
+ * Create an empty token usage
+ */
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+  }
+}
+
+/**
+ * Add the usage of a model to a per-model usage (in place)
+ */
+export function addUsage(
+  target: ModelUsage,
+  model: string,
+  usage: TokenUsage,
+): void {
+  const total = target[model] || (target[model] = emptyUsage())
+  total.inputTokens += usage.inputTokens
+  total.outputTokens += usage.outputTokens
+  total.cacheCreationTokens += usage.cacheCreationTokens
+  total.cacheReadTokens += usage.cacheReadTokens
+}
+
+/**
+ * Merge per-model usages into a new one
+ */
+export function mergeUsage(usages: ModelUsage[]): ModelUsage {
+  const merged: ModelUsage = {}
+  for (const usage of usages) {
+    for (const [model, tokens] of Object.entries(usage)) {
+      addUsage(merged, model, tokens)
+    }
+  }
+  return merged
+}
+
+/**
+ * Get the total number of tokens of a per-model usage
+ */
+export function getTotalTokens(usage: ModelUsage): number {
+  return Object.values(usage).reduce(
+    (sum, u) =>
+      sum +
+      u.inputTokens +
+      u.outputTokens +
+      u.cacheCreationTokens +
+      u.cacheReadTokens,
+    0,
+  )
+}
+
+/**
+ * Find the price of a model
+ * Returns undefined when no configured prefix matches the model id
+ */
+function getModelPricing(model: string): ModelPricing | undefined {
+  const config = vscode.workspace.getConfiguration("workspacesList")
+  const pricing = {
+    ...DEFAULT_MODEL_PRICING,
+    ...config.get<Record<string, ModelPricing>>("modelPricing", {}),
+  }
+
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? pricing[prefix] : undefined
+}
+
+/**
+ * Estimate the cost (USD) of a per-model usage
+ * Models without a known price are listed in unpricedModels
+ */
+export function estimateCost(usage: ModelUsage): {
+  cost: number
+  unpricedModels: string[]
+} {
+  let cost = 0
+  const unpricedModels: string[] = []
+
+  for (const [model, tokens] of Object.entries(usage)) {
+    const pricing = getModelPricing(model)
+    if (!pricing) {
+      unpricedModels.push(model)
+      continue
+    }
+    cost +=
+      (tokens.inputTokens * (pricing.input || 0) +
+        tokens.outputTokens * (pricing.output || 0) +
+        tokens.cacheCreationTokens * (pricing.cacheWrite || 0) +
+        tokens.cacheReadTokens * (pricing.cacheRead || 0)) /
+      1_000_000
+  }
+
+  return { cost, unpricedModels }
+}
+
+/**
+ * Format a token count (e.g. "1.2M", "34k")
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`
+  }
+  if (count >= 1_000) {
+    return `${Math.round(count / 1_000)}k`
+  }
+  return `${count}`
+}
+
+/**
+ * Format a cost in USD, marked as a lower bound when some models have no price
+ */
+export function formatCost(usage: ModelUsage): string {
+  const { cost, unpricedModels } = estimateCost(usage)
+  return `${unpricedModels.length > 0 ? "≥ " : ""}$${cost.toFixed(2)}`
+}
+
+/**
+ * Format a per-model usage for tooltips (e.g. "1.2M tokens · $3.40")
+ */
+export function formatUsage(usage: ModelUsage): string {
+  return `${formatTokens(getTotalTokens(usage))} tokens · ${formatCost(usage)}`
+}
@@ -0,0 +1,103 @@
+import * as vscode from "vscode"
+import { ModelUsage, UsageSummary } from "./types"
+import {
+  estimateCost,
+  formatCost,
+  formatTokens,
+  getTotalTokens,
+  mergeUsage,
+} from "./usageCost"
+
+export interface WorkspaceUsage {
+  name: string
+  usage: UsageSummary
+}
+
+/**
+ * Read-only markdown report of the Claude Code token usage and estimated
+ * cost of the listed workspaces
+ */
+export class UsageReportProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = "claude-usage"
+  static readonly uri = vscode.Uri.from({
+    scheme: UsageReportProvider.scheme,
+    path: "/Claude Usage.md",
+  })
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>()
+  readonly onDidChange = this._onDidChange.event
+
+  constructor(private getWorkspaceUsage: () => Promise<WorkspaceUsage[]>) {}
+
+  /**
+   * Open the report as a markdown preview
+   */
+  async open(): Promise<void> {
+    // Re-render if the report is already open
+    this._onDidChange.fire(UsageReportProvider.uri)
+    await vscode.commands.executeCommand(
+      "markdown.showPreview",
+      UsageReportProvider.uri,
+    )
+  }
+
+  async provideTextDocumentContent(): Promise<string> {
+    const workspaces = await this.getWorkspaceUsage()
+    return this.renderReport(workspaces)
+  }
+
+  /**
+   * Render the report as markdown
+   */
+  private renderReport(workspaces: WorkspaceUsage[]): string {
+    const sorted = [...workspaces].sort(
+      (a, b) =>
+        estimateCost(b.usage.week).cost - estimateCost(a.usage.week).cost,
+    )
+    const today = mergeUsage(workspaces.map((w) => w.usage.today))
+    const week = mergeUsage(workspaces.map((w) => w.usage.week))
+
+    const output = [
+      "# Claude Code Usage",
+      "",
+      `_Estimated from the local conversation logs of the open workspaces · ${new Date().toLocaleString()}_`,
+      "",
+      "## By Workspace",
+      "",
+      "| Workspace | Today | Cost today | This week | Cost this week |",
+      "| --- | ---: | ---: | ---: | ---: |",
+      ...sorted.map((w) => this.renderRow(w.name, w.usage.today, w.usage.week)),
+      this.renderRow("**Total**", today, week),
+      "",
+      "## By Model (This Week)",
+      "",
+      "| Model | Input | Output | Cache write | Cache read | Cost |",
+      "| --- | ---: | ---: | ---: | ---: | ---: |",
+    ]
+
+    for (const [model, tokens] of Object.entries(week)) {
+      output.push(
+        `| ${model} | ${formatTokens(tokens.inputTokens)} | ${formatTokens(tokens.outputTokens)} | ${formatTokens(tokens.cacheCreationTokens)} | ${formatTokens(tokens.cacheReadTokens)} | ${formatCost({ [model]: tokens })} |`,
+      )
+    }
+
+    const { unpricedModels } = estimateCost(week)
+    if (unpricedModels.length > 0) {
+      output.push(
+        "",
+        `> No price known for ${unpricedModels.map((m) => `\`${m}\``).join(", ")}, add it to the \`workspacesList.modelPricing\` setting.`,
+      )
+    }
+
+    return output.join("\n") + "\n"
+  }
+
+  private renderRow(name: string, today: ModelUsage, week: ModelUsage): string {
+    const escapedName = name.replace(/\|/g, "\\|")
+    return `| ${escapedName} | ${formatTokens(getTotalTokens(today))} | ${formatCost(today)} | ${formatTokens(getTotalTokens(week))} | ${formatCost(week)} |`
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+  }
+}
@@ -0,0 +1,48 @@
+import { RemoteInfo } from "./remoteWorkspace"
+
+export interface WindowInfo {
+  appName: string
+  windowTitle: string
+  windowIndex: number
+  windowId?: string
+  workspacePath?: string
+  sourceId?: string // Id of the WindowSource that reported this window
+  workspaceFile?: string // .code-workspace file of a multi-root window
+  folders?: string[] // Member folders of a multi-root window
+  remote?: RemoteInfo // Remote target of an SSH / WSL / dev container window
+}
+
+/**
+ * Kind of window a source reports
+ * - workspace: an editor window, focused through vscode.openFolder
+ * - browser: any other window, focused by the source itself
+ */
+export type WindowSourceKind = "workspace" | "browser"
+
+/**
+ * A provider of open windows (editor windows, browser windows...)
+ * Implementations are registered in the WindowSourceRegistry
+ */
+export interface WindowSource {
+  /**
+   * Unique id of the source (used to route focus requests)
+   */
+  readonly id: string
+
+  readonly kind: WindowSourceKind
+
+  /**
+   * List the windows currently open
+   */
+  getOpenWindows(): Promise<WindowInfo[]>
+
+  /**
+   * Focus a window previously returned by getOpenWindows
+   */
+  focusWindow(windowInfo: WindowInfo): Promise<boolean>
+
+  /**
+   * Get the friendly name of a window
+   */
+  getWorkspaceName(windowInfo: WindowInfo): string
+}
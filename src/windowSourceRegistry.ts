@@ -0,0 +1,116 @@
+import * as vscode from "vscode"
+import { BrowserWindowManager } from "./browserWindowManager"
+import { outputChannel } from "./extension"
+import { FakeWindowSource } from "./fakeWindowSource"
+import { LinuxWindowManager } from "./linuxWindowManager"
+import { MacOSWindowManager } from "./macosWindowManager"
+import { WindowInfo, WindowSource, WindowSourceKind } from "./windowSource"
+
+interface RegisteredSource {
+  source: WindowSource
+  platforms?: NodeJS.Platform[] // undefined = every platform
+}
+
+export class WindowSourceRegistry {
+  private sources: RegisteredSource[] = []
+
+  /**
+   * Create a registry with the built-in sources
+   * Sources that don't support the current platform are skipped at query time
+   */
+  static createDefault(): WindowSourceRegistry {
+    const registry = new WindowSourceRegistry()
+    registry.register(new MacOSWindowManager(), ["darwin"])
+    registry.register(new LinuxWindowManager(), ["linux"])
+    registry.register(new BrowserWindowManager(), ["darwin"])
+
+    // Fake workspaces let the tree be exercised without any real editor running
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    const fakeWorkspaces = config.get<string[]>("fakeWorkspaces", [])
+    if (fakeWorkspaces.length > 0) {
+      registry.register(FakeWindowSource.fromPaths(fakeWorkspaces))
+    }
+
+    return registry
+  }
+
+  /**
+   * Register a window source, optionally restricted to some platforms
+   * Returns a disposable that unregisters it
+   */
+  register(
+    source: WindowSource,
+    platforms?: NodeJS.Platform[],
+  ): vscode.Disposable {
+    if (this.sources.some((s) => s.source.id === source.id)) {
+      throw new Error(`Window source already registered: ${source.id}`)
+    }
+
+    const entry: RegisteredSource = { source, platforms }
+    this.sources.push(entry)
+
+    return new vscode.Disposable(() => {
+      this.sources = this.sources.filter((s) => s !== entry)
+    })
+  }
+
+  /**
+   * Get the sources available on a platform
+   */
+  getSources(
+    kind?: WindowSourceKind,
+    platform: NodeJS.Platform = process.platform,
+  ): WindowSource[] {
+    return this.sources
+      .filter((s) => !s.platforms || s.platforms.includes(platform))
+      .map((s) => s.source)
+      .filter((source) => !kind || source.kind === kind)
+  }
+
+  /**
+   * Get a source by id
+   */
+  getSource(id: string | undefined): WindowSource | undefined {
+    return this.sources.find((s) => s.source.id === id)?.source
+  }
+
+  /**
+   * List the windows of every available source of a kind
+   * Each window is tagged with the id of the source that reported it
+   */
+  async getOpenWindows(kind: WindowSourceKind): Promise<WindowInfo[]> {
+    const results = await Promise.all(
+      this.getSources(kind).map(async (source) => {
+        try {
+          const windows = await source.getOpenWindows()
+          return windows.map((w) => ({ ...w, sourceId: source.id }))
+        } catch (error: unknown) {
+          outputChannel.appendLine(
+            `[WorkspacesList] Window source ${source.id} failed: ${error}`,
+          )
+          return []
+        }
+      }),
+    )
+    return results.flat()
+  }
+
+  /**
+   * Focus a window through the source that reported it
+   */
+  async focusWindow(windowInfo: WindowInfo): Promise<boolean> {
+    const source = this.getSource(windowInfo.sourceId)
+    if (!source) {
+      return false
+    }
+    return source.focusWindow(windowInfo)
+  }
+
+  /**
+   * Get the friendly name of a window from the source that reported it
+   */
+  getWorkspaceName(windowInfo: WindowInfo): string {
+    const source = this.getSource(windowInfo.sourceId)
+    return source ? source.getWorkspaceName(windowInfo) : windowInfo.windowTitle
+  }
+}
@@ -0,0 +1,101 @@
+import { ClaudeCodeStatus } from "./types"
+
+export interface WorkspaceFilter {
+  text: string // Space separated terms: words, tag:<tag> and status:<status>
+  hideBrowsers: boolean
+  hideNoSession: boolean
+}
+
+export const EMPTY_FILTER: WorkspaceFilter = {
+  text: "",
+  hideBrowsers: false,
+  hideNoSession: false,
+}
+
+/**
+ * What a filter is matched against
+ */
+export interface FilterTarget {
+  name: string
+  paths: string[] // Workspace path, remote path and member folders
+  tags: string[]
+  status: ClaudeCodeStatus | undefined // Undefined for browser windows
+}
+
+// Names accepted by status:<status>, status names themselves also match
+const STATUS_ALIASES: Record<string, ClaudeCodeStatus[]> = {
+  waiting: [ClaudeCodeStatus.WaitingForInput],
+  working: [ClaudeCodeStatus.Executing],
+  finished: [ClaudeCodeStatus.RecentlyFinished],
+  idle: [ClaudeCodeStatus.Running],
+  stopped: [ClaudeCodeStatus.NotRunning],
+  none: [ClaudeCodeStatus.NoSession],
+  active: [
+    ClaudeCodeStatus.WaitingForInput,
+    ClaudeCodeStatus.Executing,
+    ClaudeCodeStatus.RecentlyFinished,
+    ClaudeCodeStatus.Running,
+  ],
+}
+
+function matchesStatus(
+  value: string,
+  status: ClaudeCodeStatus | undefined,
+): boolean {
+  if (status === undefined) {
+    return false
+  }
+  const aliased = STATUS_ALIASES[value]
+  if (aliased) {
+    return aliased.includes(status)
+  }
+  // Exact name, "running" must not match NotRunning
+  return ClaudeCodeStatus[status].toLowerCase() === value
+}
+
+/**
+ * Check if a tree item matches the text of a filter
+ * Every term must match (case insensitive)
+ */
+export function matchesFilter(
+  filter: WorkspaceFilter,
+  target: FilterTarget,
+): boolean {
+  const terms = filter.text.toLowerCase().split(/\s+/).filter(Boolean)
+  const tags = target.tags.map((tag) => tag.toLowerCase())
+
+  return terms.every((term) => {
+    if (term.startsWith("status:")) {
+      return matchesStatus(term.slice("status:".length), target.status)
+    }
+    if (term.startsWith("tag:")) {
+      return tags.includes(term.slice("tag:".length))
+    }
+    return [target.name, ...target.paths, ...tags].some((value) =>
+      value.toLowerCase().includes(term),
+    )
+  })
+}
+
+export function isFilterActive(filter: WorkspaceFilter): boolean {
+  return filter.text !== "" || filter.hideBrowsers || filter.hideNoSession
+}
+
+/**
+ * Check if the items matching a filter change with the Claude statuses
+ */
+export function isStatusFilter(filter: WorkspaceFilter): boolean {
+  return filter.hideNoSession || /(^|\s)status:/i.test(filter.text)
+}
+
+/**
+ * Describe a filter for the view description (e.g. "“api” · browsers hidden")
+ */
+export function describeFilter(filter: WorkspaceFilter): string | undefined {
+  const parts = [
+    filter.text ? `“${filter.text}”` : undefined,
+    filter.hideBrowsers ? "browsers hidden" : undefined,
+    filter.hideNoSession ? "no session hidden" : undefined,
+  ].filter(Boolean)
+  return parts.length > 0 ? `Filter: ${parts.join(" · ")}` : undefined
+}
@@ -0,0 +1,490 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { outputChannel } from "./extension"
+import {
+  getCurrentWorkspacePath,
+  getRemoteKey,
+  parseRemoteUri,
+} from "./remoteWorkspace"
+import { WorkspaceItem, WorkspacesProvider } from "./workspacesProvider"
+
+// Named sets of workspaces (set name -> folders, .code-workspace files or
+// vscode-remote:// URIs)
+export type WorkspaceSets = Record<string, string[]>
+
+// File of the extension's global storage every window watches for close requests
+const CLOSE_REQUEST_FILE = "close-request.json"
+
+// Windows ignore close requests older than this
+const CLOSE_REQUEST_TTL_MS = 30 * 1000
+
+interface CloseRequest {
+  paths: string[] // Paths of the tree items to close
+  timestamp: number
+}
+
+/**
+ * Get the set entry of an open workspace (what vscode.openFolder reopens)
+ * Paths in the home directory are saved with ~ so shared sets work for everyone
+ */
+function getEntry(item: WorkspaceItem): string {
+  if (item.windowInfo.remote) {
+    return item.windowInfo.remote.uri
+  }
+  const entryPath = item.windowInfo.workspaceFile || item.path
+  const home = process.env.HOME
+  return home && entryPath.startsWith(home + path.sep)
+    ? "~" + entryPath.slice(home.length)
+    : entryPath
+}
+
+/**
+ * Get the tree item path of a set entry
+ */
+function getEntryPath(entry: string): string {
+  const remote = parseRemoteUri(entry)
+  if (remote) {
+    return getRemoteKey(remote)
+  }
+  return entry.startsWith("~")
+    ? path.join(process.env.HOME || "", entry.slice(1))
+    : entry
+}
+
+function getEntryUri(entry: string): vscode.Uri {
+  return parseRemoteUri(entry)
+    ? vscode.Uri.parse(entry)
+    : vscode.Uri.file(getEntryPath(entry))
+}
+
+/**
+ * Get the name shown for a set entry
+ */
+function getEntryName(entry: string): string {
+  const remote = parseRemoteUri(entry)
+  return path.posix.basename(
+    remote ? remote.remotePath : entry,
+    ".code-workspace",
+  )
+}
+
+/**
+ * Get the workspacesList.workspaceSetsFile path, ~ expanded
+ */
+function getSetsFilePath(): string | undefined {
+  const config = vscode.workspace.getConfiguration("workspacesList")
+  const filePath = config.get<string>("workspaceSetsFile", "")
+  if (!filePath) {
+    return undefined
+  }
+  return filePath.startsWith("~")
+    ? path.join(process.env.HOME || "", filePath.slice(1))
+    : filePath
+}
+
+/**
+ * Saves, opens, closes and compares named sets of workspaces
+ * Sets are stored in the workspacesList.workspaceSets setting, or in the
+ * sharable JSON file of workspacesList.workspaceSetsFile when one is set
+ * Other windows are closed through a request file of the global storage,
+ * which every window of the same editor app watches
+ */
+export class WorkspaceSetManager implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = []
+  private readonly activationTime = Date.now()
+  private readonly closeRequestPath: string
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private workspacesProvider: WorkspacesProvider,
+  ) {
+    this.closeRequestPath = path.join(
+      context.globalStorageUri.fsPath,
+      CLOSE_REQUEST_FILE,
+    )
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(context.globalStorageUri, CLOSE_REQUEST_FILE),
+    )
+
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.handleCloseRequest()),
+      watcher.onDidChange(() => this.handleCloseRequest()),
+      vscode.commands.registerCommand("workspacesList.saveWorkspaceSet", () =>
+        this.saveSet(),
+      ),
+      vscode.commands.registerCommand("workspacesList.openWorkspaceSet", () =>
+        this.openSet(),
+      ),
+      vscode.commands.registerCommand("workspacesList.closeWorkspaceSet", () =>
+        this.closeSet(),
+      ),
+      vscode.commands.registerCommand(
+        "workspacesList.compareWorkspaceSet",
+        () => this.compareSet(),
+      ),
+      vscode.commands.registerCommand("workspacesList.deleteWorkspaceSet", () =>
+        this.deleteSet(),
+      ),
+    )
+  }
+
+  /**
+   * Get every set, the setting wins over the file for sets of the same name
+   */
+  async getSets(): Promise<WorkspaceSets> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    return {
+      ...(await this.readSetsFile()),
+      ...config.get<WorkspaceSets>("workspaceSets", {}),
+    }
+  }
+
+  private async readSetsFile(): Promise<WorkspaceSets> {
+    const filePath = getSetsFilePath()
+    if (!filePath) {
+      return {}
+    }
+    try {
+      const sets = JSON.parse(await fs.readFile(filePath, "utf-8"))
+      // Keep the well-formed sets only
+      return Object.fromEntries(
+        Object.entries(sets).filter(
+          ([, entries]) =>
+            Array.isArray(entries) &&
+            entries.every((entry) => typeof entry === "string"),
+        ),
+      ) as WorkspaceSets
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        outputChannel.appendLine(
+          `[WorkspacesList] Failed to read workspace sets from ${filePath}: ${error}`,
+        )
+      }
+      return {}
+    }
+  }
+
+  /**
+   * Save or remove (entries undefined) a set
+   */
+  private async writeSet(
+    name: string,
+    entries: string[] | undefined,
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    const settingSets = { ...config.get<WorkspaceSets>("workspaceSets", {}) }
+    const filePath = getSetsFilePath()
+
+    if (filePath) {
+      const fileSets = await this.readSetsFile()
+      if (entries) {
+        fileSets[name] = entries
+      } else {
+        delete fileSets[name]
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(fileSets, null, 2) + "\n")
+      // A set of the same name in the setting would hide the file's
+      if (!(name in settingSets)) {
+        return
+      }
+    }
+
+    if (entries && !filePath) {
+      settingSets[name] = entries
+    } else {
+      delete settingSets[name]
+    }
+    await config.update(
+      "workspaceSets",
+      settingSets,
+      vscode.ConfigurationTarget.Global,
+    )
+  }
+
+  /**
+   * Pick a set
+   */
+  private async pickSet(
+    placeHolder: string,
+  ): Promise<{ name: string; entries: string[] } | undefined> {
+    const sets = await this.getSets()
+    const names = Object.keys(sets).sort((a, b) => a.localeCompare(b))
+    if (names.length === 0) {
+      vscode.window.showInformationMessage(
+        'No workspace set saved yet, save the open workspaces with "Save Workspace Set"',
+      )
+      return undefined
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      names.map((name) => ({
+        label: name,
+        description: `${sets[name].length} workspaces`,
+        detail: sets[name].map(getEntryName).join(", "),
+      })),
+      { placeHolder },
+    )
+    return picked
+      ? { name: picked.label, entries: sets[picked.label] }
+      : undefined
+  }
+
+  private getOpenPaths(): Set<string> {
+    return new Set(
+      this.workspacesProvider.getWorkspaceItems().map((item) => item.path),
+    )
+  }
+
+  /**
+   * Save some of the open workspaces as a named set
+   */
+  private async saveSet(): Promise<void> {
+    const items = this.workspacesProvider.getWorkspaceItems()
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("No open workspace to save")
+      return
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      items.map((item) => ({
+        label: String(item.label),
+        description: item.windowInfo.remote?.remotePath || item.path,
+        picked: true,
+        item,
+      })),
+      { canPickMany: true, placeHolder: "Workspaces of the set" },
+    )
+    if (!picked || picked.length === 0) {
+      return
+    }
+
+    const sets = await this.getSets()
+    const name = (
+      await vscode.window.showInputBox({
+        prompt: "Name of the workspace set",
+        placeHolder: Object.keys(sets).join(", ") || "e.g. Web app",
+        validateInput: (value) => (value.trim() ? undefined : "Enter a name"),
+      })
+    )?.trim()
+    if (!name) {
+      return
+    }
+
+    if (sets[name]) {
+      const replace = await vscode.window.showWarningMessage(
+        `Replace the workspace set "${name}"?`,
+        { modal: true },
+        "Replace",
+      )
+      if (replace !== "Replace") {
+        return
+      }
+    }
+
+    try {
+      await this.writeSet(
+        name,
+        picked.map((p) => getEntry(p.item)),
+      )
+      vscode.window.showInformationMessage(
+        `Saved workspace set "${name}" (${picked.length} workspaces)`,
+      )
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save workspace set "${name}": ${error}`,
+      )
+    }
+  }
+
+  /**
+   * Open the workspaces of a set that aren't open yet, each in a new window
+   */
+  private async openSet(): Promise<void> {
+    const set = await this.pickSet("Workspace set to open")
+    if (!set) {
+      return
+    }
+
+    const openPaths = this.getOpenPaths()
+    const closed = set.entries.filter(
+      (entry) => !openPaths.has(getEntryPath(entry)),
+    )
+    if (closed.length === 0) {
+      vscode.window.showInformationMessage(
+        `Every workspace of "${set.name}" is already open`,
+      )
+      return
+    }
+
+    for (const entry of closed) {
+      await this.openEntry(entry)
+    }
+  }
+
+  private async openEntry(entry: string): Promise<void> {
+    try {
+      await vscode.commands.executeCommand(
+        "vscode.openFolder",
+        getEntryUri(entry),
+        { forceNewWindow: true },
+      )
+    } catch (error) {
+      outputChannel.appendLine(
+        `[WorkspacesList] Failed to open ${entry}: ${error}`,
+      )
+      vscode.window.showErrorMessage(`Failed to open: ${getEntryName(entry)}`)
+    }
+  }
+
+  /**
+   * Close the open windows of a set (including this one when it's part of it)
+   */
+  private async closeSet(): Promise<void> {
+    const set = await this.pickSet("Workspace set to close")
+    if (!set) {
+      return
+    }
+
+    const openPaths = this.getOpenPaths()
+    const paths = set.entries
+      .map(getEntryPath)
+      .filter((entryPath) => openPaths.has(entryPath))
+    if (paths.length === 0) {
+      vscode.window.showInformationMessage(
+        `No workspace of "${set.name}" is open`,
+      )
+      return
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Close ${paths.length} windows of "${set.name}"?`,
+      { modal: true },
+      "Close",
+    )
+    if (confirm !== "Close") {
+      return
+    }
+
+    const request: CloseRequest = { paths, timestamp: Date.now() }
+    try {
+      await fs.mkdir(path.dirname(this.closeRequestPath), { recursive: true })
+      await fs.writeFile(this.closeRequestPath, JSON.stringify(request))
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to close "${set.name}": ${error}`)
+    }
+  }
+
+  /**
+   * Close this window if a recent close request lists it
+   */
+  private async handleCloseRequest(): Promise<void> {
+    let request: CloseRequest
+    try {
+      request = JSON.parse(await fs.readFile(this.closeRequestPath, "utf-8"))
+    } catch {
+      // Removed or being written
+      return
+    }
+
+    const currentPath = getCurrentWorkspacePath()
+    if (
+      !currentPath ||
+      !Array.isArray(request.paths) ||
+      !request.paths.includes(currentPath) ||
+      request.timestamp < this.activationTime ||
+      Date.now() - request.timestamp > CLOSE_REQUEST_TTL_MS
+    ) {
+      return
+    }
+
+    outputChannel.appendLine(
+      `[WorkspacesList] Closing window of ${currentPath} (workspace set closed)`,
+    )
+    await vscode.commands.executeCommand("workbench.action.closeWindow")
+  }
+
+  /**
+   * Compare a set with the open workspaces
+   * Picking a workspace of the set opens or focuses it
+   */
+  private async compareSet(): Promise<void> {
+    const set = await this.pickSet("Workspace set to compare")
+    if (!set) {
+      return
+    }
+
+    const items = this.workspacesProvider.getWorkspaceItems()
+    const setPaths = new Set(set.entries.map(getEntryPath))
+    const openPaths = this.getOpenPaths()
+
+    type CompareItem = vscode.QuickPickItem & {
+      entry?: string
+      item?: WorkspaceItem
+    }
+    const separator = (label: string): CompareItem => ({
+      label,
+      kind: vscode.QuickPickItemKind.Separator,
+    })
+
+    const openInSet = items.filter((item) => setPaths.has(item.path))
+    const closedInSet = set.entries.filter(
+      (entry) => !openPaths.has(getEntryPath(entry)),
+    )
+    const openNotInSet = items.filter((item) => !setPaths.has(item.path))
+
+    const picks: CompareItem[] = [
+      separator(`Open (${openInSet.length})`),
+      ...openInSet.map((item) => ({
+        label: `$(check) ${item.label}`,
+        description: item.windowInfo.remote?.remotePath || item.path,
+        item,
+      })),
+      separator(`Not open (${closedInSet.length})`),
+      ...closedInSet.map((entry) => ({
+        label: `$(circle-outline) ${getEntryName(entry)}`,
+        description: entry,
+        entry,
+      })),
+      separator(`Open, not in the set (${openNotInSet.length})`),
+      ...openNotInSet.map((item) => ({
+        label: `$(add) ${item.label}`,
+        description: item.windowInfo.remote?.remotePath || item.path,
+        item,
+      })),
+    ]
+
+    const picked = await vscode.window.showQuickPick(picks, {
+      title: `Workspace set "${set.name}"`,
+      placeHolder: "Pick a workspace to open or focus it",
+    })
+    if (picked?.item) {
+      await this.workspacesProvider.focusWorkspace(picked.item)
+    } else if (picked?.entry) {
+      await this.openEntry(picked.entry)
+    }
+  }
+
+  private async deleteSet(): Promise<void> {
+    const set = await this.pickSet("Workspace set to delete")
+    if (!set) {
+      return
+    }
+    try {
+      await this.writeSet(set.name, undefined)
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to delete workspace set "${set.name}": ${error}`,
+      )
+    }
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+  }
+}
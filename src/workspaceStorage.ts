@@ -0,0 +1,157 @@
+import * as fs from "fs/promises"
+import { parse as parseJsonc } from "jsonc-parser"
+import * as path from "path"
+import { getRemoteKey, parseRemoteUri, RemoteInfo } from "./remoteWorkspace"
+
+export interface StoredWorkspace {
+  /**
+   * Folder of a single-folder window, or the .code-workspace file of a
+   * multi-root window
+   */
+  workspacePath: string
+
+  /**
+   * The .code-workspace file (multi-root windows only)
+   */
+  workspaceFile?: string
+
+  /**
+   * Member folders (multi-root windows only)
+   */
+  folders?: string[]
+
+  /**
+   * Remote target (SSH, WSL, dev container... windows only)
+   * workspacePath is then a key derived from the remote URI
+   */
+  remote?: RemoteInfo
+}
+
+/**
+ * Convert a file:// URI to a path
+ * Returns null for any other scheme
+ */
+function fileUriToPath(uri: string): string | null {
+  if (uri.startsWith("file://")) {
+    return decodeURIComponent(uri.replace("file://", ""))
+  }
+  return null
+}
+
+/**
+ * Get workspace path from storage hash
+ * Reads <storagePath>/<hash>/workspace.json (storagePath is relative to $HOME)
+ */
+export async function getWorkspaceFromHash(
+  hash: string,
+  storagePath: string,
+): Promise<StoredWorkspace | null> {
+  try {
+    const workspaceJsonPath = path.join(
+      process.env.HOME || "",
+      storagePath,
+      hash,
+      "workspace.json",
+    )
+
+    const content = await fs.readFile(workspaceJsonPath, "utf-8")
+    return await parseStoredWorkspace(JSON.parse(content))
+  } catch (error) {
+    // Skip invalid workspaces
+  }
+  return null
+}
+
+/**
+ * Resolve a folder or .code-workspace URI, as stored in workspace.json
+ * ({ folder } or { workspace }) and in the recently opened history
+ */
+export async function parseStoredWorkspace(data: {
+  folder?: string
+  workspace?: string
+}): Promise<StoredWorkspace | null> {
+  // Remote window (SSH, WSL, dev container...)
+  const remote = parseRemoteUri(data.folder || data.workspace || "")
+  if (remote) {
+    return { workspacePath: getRemoteKey(remote), remote }
+  }
+
+  if (data.folder) {
+    let folderPath = data.folder
+    if (folderPath.startsWith("file://")) {
+      folderPath = decodeURIComponent(folderPath.replace("file://", ""))
+    }
+    return { workspacePath: folderPath }
+  }
+
+  // Multi-root window opened on a .code-workspace file
+  if (data.workspace) {
+    const workspaceFile = fileUriToPath(data.workspace)
+    if (workspaceFile) {
+      return {
+        workspacePath: workspaceFile,
+        workspaceFile,
+        folders: await readWorkspaceFolders(workspaceFile),
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Get the window title of a workspace
+ * Multi-root windows are named after their .code-workspace file
+ */
+export function getWorkspaceTitle(workspace: StoredWorkspace): string {
+  if (workspace.remote) {
+    return path.posix.basename(workspace.remote.remotePath, ".code-workspace")
+  }
+
+  if (!workspace.workspaceFile) {
+    return path.basename(workspace.workspacePath)
+  }
+
+  // Untitled workspaces are stored by the editor as .../Workspaces/<id>/workspace.json
+  if (path.basename(workspace.workspaceFile) === "workspace.json") {
+    return "Untitled (Workspace)"
+  }
+
+  return path.basename(workspace.workspaceFile, ".code-workspace")
+}
+
+/**
+ * Read the member folders of a .code-workspace file
+ * Relative folder paths are resolved against the workspace file's directory
+ */
+export async function readWorkspaceFolders(
+  workspaceFile: string,
+): Promise<string[]> {
+  try {
+    const content = await fs.readFile(workspaceFile, "utf-8")
+    // .code-workspace files are JSON with comments and trailing commas
+    const data = parseJsonc(content, undefined, { allowTrailingComma: true })
+
+    if (!data || !Array.isArray(data.folders)) {
+      return []
+    }
+
+    const baseDir = path.dirname(workspaceFile)
+    const folders: string[] = []
+
+    for (const folder of data.folders) {
+      if (typeof folder?.path === "string") {
+        folders.push(path.resolve(baseDir, folder.path))
+      } else if (typeof folder?.uri === "string") {
+        const folderPath = fileUriToPath(folder.uri)
+        if (folderPath) {
+          folders.push(folderPath)
+        }
+      }
+    }
+
+    return folders
+  } catch {
+    // Workspace file was moved or deleted
+    return []
+  }
+}
@@ -1,29 +1,123 @@
+import * as fs from "fs/promises"
+import * as path from "path"
 import * as vscode from "vscode"
-import { BrowserWindowManager } from "./browserWindowManager"
 import { ClaudeCodeDecorator } from "./claudeCodeDecorator"
 import { ClaudeCodeMonitor } from "./claudeCodeMonitor"
+import { ConfigDiagnostics } from "./configDiagnostics"
 import { ConfigReader, WorkspaceConfig } from "./configReader"
+import { customizeWorkspace } from "./customizeWorkspace"
+import { findEditorApp, getAppDisplayName } from "./editorApps"
 import { outputChannel } from "./extension"
-import { IconRenderer } from "./iconRenderer"
-import { MacOSWindowManager, WindowInfo } from "./macosWindowManager"
-import { ClaudeCodeStatus, ClaudeCodeStatusInfo } from "./types"
+import { createMonogramSvg, IconRenderer } from "./iconRenderer"
+import { getRemoteLabel, resolveLocalMirror } from "./remoteWorkspace"
+import { getRecentWorkspaces } from "./recentWorkspaces"
+import { StatusHistory } from "./statusHistory"
+import {
+  ClaudeCodeStatus,
+  ClaudeCodeStatusInfo,
+  ClaudeSessionInfo,
+  getStatusUrgency,
+  STATUS_LABELS,
+} from "./types"
+import { formatUsage, getTotalTokens } from "./usageCost"
+import { WorkspaceUsage } from "./usageReportProvider"
+import { WindowInfo, WindowSource } from "./windowSource"
+import { WindowSourceRegistry } from "./windowSourceRegistry"
+import {
+  EMPTY_FILTER,
+  isStatusFilter,
+  matchesFilter,
+  WorkspaceFilter,
+} from "./workspaceFilter"
+import { getWorkspaceTitle } from "./workspaceStorage"
+
+export type GroupBy = "none" | "app" | "status" | "directory" | "config"
+
+const GROUP_BY_OPTIONS: Array<{ groupBy: GroupBy; label: string }> = [
+  { groupBy: "none", label: "None" },
+  { groupBy: "app", label: "Editor App" },
+  { groupBy: "status", label: "Claude Status" },
+  { groupBy: "directory", label: "Parent Directory" },
+  { groupBy: "config", label: "Group (.workspaces-list.json)" },
+]
+
+// Status groups in display order, statuses not listed are idle
+const STATUS_GROUPS = [
+  {
+    label: "Needs attention",
+    icon: "bell",
+    statuses: [
+      ClaudeCodeStatus.WaitingForInput,
+      ClaudeCodeStatus.RecentlyFinished,
+    ],
+  },
+  { label: "Working", icon: "play", statuses: [ClaudeCodeStatus.Executing] },
+  { label: "Idle", icon: "circle-outline", statuses: [] },
+]
+
+const UNGROUPED_LABEL = "Ungrouped"
+
+export type SortBy = "alphabetical" | "recent" | "urgency" | "manual"
+
+const SORT_BY_OPTIONS: Array<{ sortBy: SortBy; label: string }> = [
+  { sortBy: "alphabetical", label: "Alphabetical" },
+  { sortBy: "recent", label: "Most Recent Claude Activity" },
+  { sortBy: "urgency", label: "Claude Status Urgency" },
+  { sortBy: "manual", label: "Manual (drag and drop)" },
+]
+
+// globalState key of the manual order (workspace paths), not synced so it
+// stays per machine
+const MANUAL_ORDER_KEY = "workspacesList.manualOrder"
+
+const DRAG_MIME_TYPE = "application/vnd.code.tree.workspacesList"
+
+const CONFIG_PROBLEMS_PREFIX = "⚠ "
+
+/**
+ * Format a timestamp relative to now (e.g. "5m ago")
+ */
+function formatTimeAgo(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 1000 / 60)
+  if (minutes < 1) {
+    return "just now"
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`
+  }
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) {
+    return `${hours}h ago`
+  }
+  return `${Math.round(hours / 24)}d ago`
+}
 
 export class WorkspaceItem extends vscode.TreeItem {
+  children: WorkspaceItem[] = [] // Member folders of a multi-root workspace, or items of a group
+  parent?: WorkspaceItem // Workspace of a member folder or session
+  session?: ClaudeSessionInfo // Claude session shown by a session item
+
   constructor(
     label: string,
     public readonly path: string,
     public readonly windowInfo: WindowInfo,
     public readonly context: vscode.ExtensionContext,
-    public readonly itemType: "workspace" | "browser",
+    public readonly itemType:
+      | "workspace"
+      | "browser"
+      | "folder"
+      | "session"
+      | "group"
+      | "recent",
     public readonly browserApp?: string,
     public readonly browserWindowIndex?: number,
-    public readonly config?: WorkspaceConfig,
+    public config?: WorkspaceConfig,
     public readonly claudeStatus?: ClaudeCodeStatusInfo,
     iconPath?:
       | vscode.ThemeIcon
       | vscode.Uri
       | { light: vscode.Uri; dark: vscode.Uri },
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode
+    public collapsibleState: vscode.TreeItemCollapsibleState = vscode
       .TreeItemCollapsibleState.None,
   ) {
     super(label, collapsibleState)
@@ -31,39 +125,84 @@ export class WorkspaceItem extends vscode.TreeItem {
     // Explicitly set iconPath (ensure it's never undefined)
     this.iconPath = iconPath || new vscode.ThemeIcon("folder")
 
-    // Set resourceUri for decorations using custom scheme
-    this.resourceUri = vscode.Uri.from({ scheme: "workspace-list", path })
-
-    // Apply custom background color from config if available (workspace only)
-    if (itemType === "workspace" && config?.color) {
-      this.resourceUri = vscode.Uri.from({
-        scheme: "workspace-list",
-        path,
-        query: `color=${encodeURIComponent(config.color)}`,
-      })
-    }
+    this.setColor(config?.color)
 
     // Set tooltip based on item type
     if (itemType === "browser") {
       this.tooltip = `${label}\n${browserApp || ""}`
+    } else if (itemType === "folder") {
+      this.tooltip = path
+    } else if (itemType === "session") {
+      // Tooltip and description are set from the session details
+    } else if (itemType === "group") {
+      // Description (item count) is set by the provider
+    } else if (itemType === "recent") {
+      // Tooltip and description are set from the recent workspace
+    } else if (windowInfo.remote) {
+      const remoteLabel = getRemoteLabel(windowInfo.remote)
+      this.tooltip = `${windowInfo.remote.remotePath}\n${remoteLabel}\n${getAppDisplayName(windowInfo.appName)}`
+      // Show the remote indicator along with the editor app
+      this.description = `${remoteLabel} · ${getAppDisplayName(windowInfo.appName)}`
     } else {
-      this.tooltip = `${path}\n${windowInfo.appName}`
+      const folders = windowInfo.folders
+        ? windowInfo.folders.map((f) => `\n  ${f}`).join("")
+        : ""
+      this.tooltip = `${path}${folders}\n${getAppDisplayName(windowInfo.appName)}`
+      // Show which editor app the workspace belongs to
+      this.description = getAppDisplayName(windowInfo.appName)
     }
 
     this.contextValue = itemType
 
-    // Make items clickable
-    this.command = {
-      command: "workspacesList.focusWorkspace",
-      title:
-        itemType === "browser" ? "Focus Browser Window" : "Focus Workspace",
-      arguments: [this],
+    // Make items clickable (groups only expand)
+    if (itemType !== "group") {
+      this.command = {
+        command: "workspacesList.focusWorkspace",
+        title:
+          itemType === "browser"
+            ? "Focus Browser Window"
+            : itemType === "recent"
+              ? "Reopen Workspace"
+              : "Focus Workspace",
+        arguments: [this],
+      }
     }
   }
+
+  /**
+   * Flag a workspace whose .workspaces-list.json has problems (listed in the
+   * Problems panel) with a warning sign in its description
+   */
+  setConfigProblems(count: number): void {
+    const description =
+      typeof this.description === "string" &&
+      this.description.startsWith(CONFIG_PROBLEMS_PREFIX)
+        ? this.description.slice(CONFIG_PROBLEMS_PREFIX.length)
+        : this.description
+    this.description =
+      count > 0 ? `${CONFIG_PROBLEMS_PREFIX}${description || ""}` : description
+  }
+
+  /**
+   * Set resourceUri for decorations using custom scheme
+   * The custom color from config is only applied to workspaces
+   */
+  setColor(color: string | undefined): void {
+    this.resourceUri = vscode.Uri.from({
+      scheme: "workspace-list",
+      path: this.path,
+      query:
+        this.itemType === "workspace" && color
+          ? `color=${encodeURIComponent(color)}`
+          : undefined,
+    })
+  }
 }
 
 export class WorkspacesProvider
-  implements vscode.TreeDataProvider<WorkspaceItem>
+  implements
+    vscode.TreeDataProvider<WorkspaceItem>,
+    vscode.TreeDragAndDropController<WorkspaceItem>
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
     WorkspaceItem | undefined | null | void
@@ -72,10 +211,19 @@ export class WorkspacesProvider
     WorkspaceItem | undefined | null | void
   > = this._onDidChangeTreeData.event
 
+  private _onDidChangeFilter = new vscode.EventEmitter<WorkspaceFilter>()
+  readonly onDidChangeFilter = this._onDidChangeFilter.event
+
+  readonly dragMimeTypes = [DRAG_MIME_TYPE]
+  readonly dropMimeTypes = [DRAG_MIME_TYPE]
+
   private workspaces: WorkspaceItem[] = []
-  private windowManager: MacOSWindowManager
-  private browserWindowManager: BrowserWindowManager
+  private recentItems: WorkspaceItem[] = [] // Workspaces closed recently
+  private recentOpenPaths: string | undefined // Open workspaces the recent items were loaded for
+  private filter: WorkspaceFilter = EMPTY_FILTER
+  private windowSources: WindowSourceRegistry
   private configReader: ConfigReader
+  private configDiagnostics: ConfigDiagnostics
   private iconRenderer: IconRenderer
   private claudeMonitor: ClaudeCodeMonitor
   private decorator: ClaudeCodeDecorator
@@ -83,14 +231,19 @@ export class WorkspacesProvider
   private isWindowFocused: boolean = true
   private disposables: vscode.Disposable[] = []
   private watchedWorkspaces: Set<string> = new Set() // Track which workspaces have watchers
+  private listedPaths = new Set<string>() // Workspaces and member folders of the last load
+  private configWatchers = new Map<string, vscode.Disposable>() // Config folder -> .workspaces-list.json watcher
+  private baseTooltips = new WeakMap<WorkspaceItem, string>() // Tooltips without the parts completed when hovered
 
   constructor(
     private context: vscode.ExtensionContext,
     decorator: ClaudeCodeDecorator,
+    private statusHistory: StatusHistory,
   ) {
-    this.windowManager = new MacOSWindowManager()
-    this.browserWindowManager = new BrowserWindowManager()
+    this.windowSources = WindowSourceRegistry.createDefault()
     this.configReader = new ConfigReader()
+    this.configDiagnostics = new ConfigDiagnostics(context)
+    this.disposables.push(this.configDiagnostics)
     this.iconRenderer = new IconRenderer()
     this.claudeMonitor = ClaudeCodeMonitor.getInstance()
     this.decorator = decorator
@@ -99,36 +252,761 @@ export class WorkspacesProvider
     // this.loadWorkspaces()
     this.startMonitoring()
     this.setupFocusDetection()
+
+    // User overrides may change the config of any workspace
+    this.disposables.push(
+      this.configReader.watchOverrides(() => {
+        for (const configPath of this.configWatchers.keys()) {
+          void this.reloadConfig(configPath)
+        }
+      }),
+    )
+
+    // URL icons are shown once downloaded
+    this.disposables.push(
+      this.iconRenderer.onDidDownloadIcon((url) => {
+        void this.updateUrlIcons(url)
+      }),
+    )
+
+    // Regroup and sort again when the modes change
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("workspacesList.groupBy") ||
+          e.affectsConfiguration("workspacesList.sortBy")
+        ) {
+          this._onDidChangeTreeData.fire()
+        }
+        if (e.affectsConfiguration("workspacesList.statusOverlay")) {
+          // Icons are rendered when the workspaces are loaded
+          void this.refresh()
+        }
+        if (e.affectsConfiguration("workspacesList.recent.maxItems")) {
+          void this.reloadRecentItems()
+        }
+      }),
+    )
   }
 
   async refresh(): Promise<void> {
     outputChannel.appendLine("[WorkspacesList] Refresh triggered")
+    this.configReader.clearCache()
     await this.loadWorkspaces()
     this._onDidChangeTreeData.fire()
   }
 
+  /**
+   * Register an additional window source (e.g. from another extension)
+   */
+  registerWindowSource(
+    source: WindowSource,
+    platforms?: NodeJS.Platform[],
+  ): vscode.Disposable {
+    const registration = this.windowSources.register(source, platforms)
+    void this.refresh()
+    return registration
+  }
+
   getTreeItem(element: WorkspaceItem): vscode.TreeItem {
+    // Workspace and member folder tooltips are completed when hovered
+    // (resolveTreeItem), which only happens while the tooltip is unset
+    if (element.itemType === "workspace" || element.itemType === "folder") {
+      if (!this.baseTooltips.has(element)) {
+        this.baseTooltips.set(element, String(element.tooltip || ""))
+      }
+      element.tooltip = undefined
+    }
     return element
   }
 
+  /**
+   * Complete the tooltip of a hovered workspace or member folder with its
+   * activity sparkline and token usage
+   * The usage reads the conversation files of the week, too slow to compute
+   * for every item on each refresh
+   */
+  async resolveTreeItem(
+    item: vscode.TreeItem,
+    element: WorkspaceItem,
+  ): Promise<vscode.TreeItem> {
+    if (element.itemType !== "workspace" && element.itemType !== "folder") {
+      return item
+    }
+
+    const lines = [this.baseTooltips.get(element) || ""]
+    const sparkline = this.statusHistory.getSparkline(element.path)
+    if (sparkline) {
+      lines.push(`Last 2h: ${sparkline}`)
+    }
+    const usage = await this.claudeMonitor.getUsage(element.path)
+    if (getTotalTokens(usage.week) > 0) {
+      lines.push(
+        `Today: ${formatUsage(usage.today)}`,
+        `This week: ${formatUsage(usage.week)}`,
+      )
+    }
+    item.tooltip = lines.join("\n")
+    return item
+  }
+
   getChildren(element?: WorkspaceItem): Thenable<WorkspaceItem[]> {
     if (element) {
+      // Multi-root workspaces list their member folders, other workspaces
+      // (and member folders) their Claude sessions
+      if (element.children.length > 0) {
+        return Promise.resolve(element.children)
+      }
+      if (element.itemType === "workspace" || element.itemType === "folder") {
+        return this.getSessionItems(element)
+      }
       return Promise.resolve([])
     }
-    return Promise.resolve(this.workspaces)
+    return Promise.resolve(this.getRootItems())
+  }
+
+  /**
+   * Get the root items, grouped according to the workspacesList.groupBy setting
+   * Browser windows are listed in their own group at the end
+   */
+  private getRootItems(): WorkspaceItem[] {
+    const groupBy = this.getGroupBy()
+    const browsers = this.sortItems(
+      this.filterItems(this.workspaces.filter((w) => w.itemType === "browser")),
+    )
+    const workspaces = this.sortItems(
+      this.filterItems(this.getWorkspaceItems()),
+    )
+    if (groupBy === "none") {
+      return [...workspaces, ...browsers, ...this.getRecentGroup()]
+    }
+
+    const groups = new Map<string, { icon: string; items: WorkspaceItem[] }>()
+    for (const item of workspaces) {
+      const { label, icon } = this.getGroup(item, groupBy)
+      const group = groups.get(label) || { icon, items: [] }
+      group.items.push(item)
+      groups.set(label, group)
+    }
+
+    const labels = [...groups.keys()].sort((a, b) => {
+      if (groupBy === "status") {
+        return (
+          STATUS_GROUPS.findIndex((g) => g.label === a) -
+          STATUS_GROUPS.findIndex((g) => g.label === b)
+        )
+      }
+      // Workspaces without a group come last
+      if (a === UNGROUPED_LABEL || b === UNGROUPED_LABEL) {
+        return a === UNGROUPED_LABEL ? 1 : -1
+      }
+      return a.localeCompare(b)
+    })
+
+    const groupItems = labels.map((label) =>
+      this.createGroupItem(
+        label,
+        groups.get(label)!.icon,
+        groups.get(label)!.items,
+        groupBy,
+      ),
+    )
+
+    if (browsers.length > 0) {
+      groupItems.push(
+        this.createGroupItem(
+          "Browser Windows",
+          "browser",
+          browsers,
+          groupBy,
+          "builtin:browser",
+        ),
+      )
+    }
+
+    return [...groupItems, ...this.getRecentGroup()]
+  }
+
+  /**
+   * Get the Recent section, collapsed until opened (empty when no workspace
+   * was closed recently)
+   */
+  private getRecentGroup(): WorkspaceItem[] {
+    const recentItems = this.filterItems(this.recentItems)
+    if (recentItems.length === 0) {
+      return []
+    }
+    const group = this.createGroupItem(
+      "Recent",
+      "history",
+      recentItems,
+      this.getGroupBy(),
+      "builtin:recent",
+    )
+    group.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed
+    return [group]
+  }
+
+  /**
+   * Sort items according to the workspacesList.sortBy setting
+   * Ties (and items missing from the manual order) are sorted by name
+   */
+  private sortItems(items: WorkspaceItem[]): WorkspaceItem[] {
+    const byName = (a: WorkspaceItem, b: WorkspaceItem) =>
+      String(a.label).localeCompare(String(b.label), undefined, {
+        sensitivity: "base",
+      })
+
+    switch (this.getSortBy()) {
+      case "recent": {
+        const lastActivity = (item: WorkspaceItem) =>
+          this.decorator.getCachedStatus(item.path)?.lastActivityTime || 0
+        return [...items].sort(
+          (a, b) => lastActivity(b) - lastActivity(a) || byName(a, b),
+        )
+      }
+
+      case "urgency": {
+        const urgency = (item: WorkspaceItem) =>
+          getStatusUrgency(this.decorator.getDisplayedStatus(item.path))
+        return [...items].sort(
+          (a, b) => urgency(a) - urgency(b) || byName(a, b),
+        )
+      }
+
+      case "manual": {
+        const order = this.context.globalState.get<string[]>(
+          MANUAL_ORDER_KEY,
+          [],
+        )
+        const rank = (item: WorkspaceItem) => {
+          const index = order.indexOf(item.path)
+          return index === -1 ? order.length : index
+        }
+        return [...items].sort((a, b) => rank(a) - rank(b) || byName(a, b))
+      }
+
+      default:
+        return [...items].sort(byName)
+    }
+  }
+
+  /**
+   * Keep the items matching the filter of the view
+   */
+  private filterItems(items: WorkspaceItem[]): WorkspaceItem[] {
+    return items.filter((item) => {
+      if (item.itemType === "browser") {
+        return (
+          !this.filter.hideBrowsers &&
+          matchesFilter(this.filter, {
+            name: String(item.label),
+            paths: [],
+            tags: [],
+            status: undefined,
+          })
+        )
+      }
+
+      const status = this.decorator.getDisplayedStatus(item.path)
+      if (this.filter.hideNoSession && status === ClaudeCodeStatus.NoSession) {
+        return false
+      }
+      return matchesFilter(this.filter, {
+        name: String(item.label),
+        paths: [
+          item.path,
+          ...(item.windowInfo.remote
+            ? [item.windowInfo.remote.remotePath]
+            : []),
+          ...(item.windowInfo.folders || []),
+        ],
+        tags: item.config?.tags || [],
+        status,
+      })
+    })
+  }
+
+  getFilter(): WorkspaceFilter {
+    return this.filter
+  }
+
+  setFilter(changes: Partial<WorkspaceFilter>): void {
+    this.filter = { ...this.filter, ...changes }
+    this._onDidChangeFilter.fire(this.filter)
+    this._onDidChangeTreeData.fire()
+  }
+
+  clearFilter(): void {
+    this.setFilter(EMPTY_FILTER)
+  }
+
+  /**
+   * Edit the filter text, the tree is filtered while typing
+   * Escape restores the previous filter
+   */
+  editFilter(): void {
+    const previousText = this.filter.text
+    let accepted = false
+
+    const input = vscode.window.createInputBox()
+    input.title = "Filter Workspaces"
+    input.placeholder =
+      "Name, path, tag:<tag> or status:<status> (e.g. status:waiting)"
+    input.value = previousText
+    input.onDidChangeValue((value) => this.setFilter({ text: value.trim() }))
+    input.onDidAccept(() => {
+      accepted = true
+      input.hide()
+    })
+    input.onDidHide(() => {
+      if (!accepted) {
+        this.setFilter({ text: previousText })
+      }
+      input.dispose()
+    })
+    input.show()
+  }
+
+  /**
+   * Pick the display name, icon and color of a workspace, saved to its
+   * .workspaces-list.json or to a user override
+   */
+  async customizeWorkspace(item: WorkspaceItem): Promise<void> {
+    // Remote workspaces need a local mirror, and getConfigPath falls back to
+    // the window title for windows without a folder
+    const configPath = this.getConfigPath(item.windowInfo)
+    const isFolder =
+      !!configPath &&
+      path.isAbsolute(configPath) &&
+      (await fs.stat(configPath).then(
+        (stats) => stats.isDirectory(),
+        () => false,
+      ))
+    if (!configPath || !isFolder) {
+      vscode.window.showErrorMessage(
+        "This workspace has no local folder to save the customization to",
+      )
+      return
+    }
+
+    const saved = await customizeWorkspace(
+      configPath,
+      this.windowSources.getWorkspaceName(item.windowInfo),
+    )
+    if (saved) {
+      // Don't wait for the file watchers
+      this.configReader.clearCache()
+      await this.reloadConfig(configPath)
+    }
+  }
+
+  private getSortBy(): SortBy {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    return config.get<SortBy>("sortBy", "alphabetical")
+  }
+
+  /**
+   * Pick the sorting mode of the tree
+   */
+  async selectSortBy(): Promise<void> {
+    const current = this.getSortBy()
+    const picked = await vscode.window.showQuickPick(
+      SORT_BY_OPTIONS.map((option) => ({
+        label: option.label,
+        description: option.sortBy === current ? "current" : undefined,
+        sortBy: option.sortBy,
+      })),
+      { placeHolder: "Sort workspaces by" },
+    )
+    if (picked) {
+      await vscode.workspace
+        .getConfiguration("workspacesList")
+        .update("sortBy", picked.sortBy, vscode.ConfigurationTarget.Global)
+    }
+  }
+
+  handleDrag(
+    source: readonly WorkspaceItem[],
+    dataTransfer: vscode.DataTransfer,
+  ): void {
+    // Only top-level items can be reordered
+    const items = source.filter(
+      (item) => item.itemType === "workspace" || item.itemType === "browser",
+    )
+    if (items.length > 0) {
+      dataTransfer.set(DRAG_MIME_TYPE, new vscode.DataTransferItem(items))
+    }
+  }
+
+  /**
+   * Move the dragged items before the item they are dropped on
+   * Dropping on a group moves them after its last item, dropping on empty
+   * space to the end. Dragging switches the tree to manual sorting
+   */
+  async handleDrop(
+    target: WorkspaceItem | undefined,
+    dataTransfer: vscode.DataTransfer,
+  ): Promise<void> {
+    const dragged = dataTransfer.get(DRAG_MIME_TYPE)?.value as
+      | WorkspaceItem[]
+      | undefined
+    if (!dragged || dragged.length === 0) {
+      return
+    }
+
+    // Member folders and sessions stand for their workspace
+    let targetItem = target
+    while (targetItem?.parent) {
+      targetItem = targetItem.parent
+    }
+
+    const draggedPaths = new Set(dragged.map((item) => item.path))
+    if (targetItem && draggedPaths.has(targetItem.path)) {
+      return
+    }
+
+    // Start from the saved order, which keeps the positions of closed and
+    // filtered out workspaces, plus the shown items it doesn't have yet
+    const savedOrder = this.context.globalState.get<string[]>(
+      MANUAL_ORDER_KEY,
+      [],
+    )
+    const shownPaths = [
+      ...this.sortItems(this.getWorkspaceItems()),
+      ...this.sortItems(
+        this.workspaces.filter((w) => w.itemType === "browser"),
+      ),
+    ].map((item) => item.path)
+    const order = [
+      ...savedOrder,
+      ...shownPaths.filter((itemPath) => !savedOrder.includes(itemPath)),
+    ].filter((itemPath) => !draggedPaths.has(itemPath))
+
+    let index = order.length
+    if (targetItem?.itemType === "group") {
+      const groupIndexes = targetItem.children
+        .map((child) => order.indexOf(child.path))
+        .filter((i) => i !== -1)
+      if (groupIndexes.length > 0) {
+        index = Math.max(...groupIndexes) + 1
+      }
+    } else if (targetItem && order.includes(targetItem.path)) {
+      index = order.indexOf(targetItem.path)
+    }
+    order.splice(index, 0, ...dragged.map((item) => item.path))
+
+    await this.context.globalState.update(MANUAL_ORDER_KEY, order)
+    if (this.getSortBy() !== "manual") {
+      // The configuration change refreshes the tree
+      await vscode.workspace
+        .getConfiguration("workspacesList")
+        .update("sortBy", "manual", vscode.ConfigurationTarget.Global)
+    } else {
+      this._onDidChangeTreeData.fire()
+    }
+  }
+
+  private getGroupBy(): GroupBy {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    return config.get<GroupBy>("groupBy", "none")
+  }
+
+  /**
+   * Get the group of a workspace
+   */
+  private getGroup(
+    item: WorkspaceItem,
+    groupBy: GroupBy,
+  ): { label: string; icon: string } {
+    const remote = item.windowInfo.remote
+    switch (groupBy) {
+      case "app":
+        return {
+          label: getAppDisplayName(item.windowInfo.appName),
+          icon: findEditorApp(item.windowInfo.appName)?.icon || "window",
+        }
+
+      case "status": {
+        const status = this.decorator.getDisplayedStatus(item.path)
+        const group =
+          STATUS_GROUPS.find(
+            (g) => status !== undefined && g.statuses.includes(status),
+          ) || STATUS_GROUPS[STATUS_GROUPS.length - 1]
+        return { label: group.label, icon: group.icon }
+      }
+
+      case "directory": {
+        if (remote) {
+          return {
+            label: `${getRemoteLabel(remote)} ${path.posix.dirname(remote.remotePath)}`,
+            icon: "remote",
+          }
+        }
+        const home = process.env.HOME || ""
+        const directory = path.dirname(item.path)
+        return {
+          label:
+            home &&
+            (directory === home || directory.startsWith(home + path.sep))
+              ? "~" + directory.slice(home.length)
+              : directory,
+          icon: "folder",
+        }
+      }
+
+      default:
+        return { label: item.config?.group || UNGROUPED_LABEL, icon: "tag" }
+    }
+  }
+
+  /**
+   * Create a group node listing some items
+   * Built-in groups pass an id of their own (builtin:<name>), so that a group
+   * label from the workspace configs can't produce the same id
+   */
+  private createGroupItem(
+    label: string,
+    icon: string,
+    items: WorkspaceItem[],
+    groupBy: GroupBy,
+    groupPath = `group:${groupBy}:${label}`,
+  ): WorkspaceItem {
+    const item = new WorkspaceItem(
+      label,
+      groupPath,
+      { appName: "", windowTitle: label, windowIndex: 0 },
+      this.context,
+      "group",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new vscode.ThemeIcon(icon),
+      vscode.TreeItemCollapsibleState.Expanded,
+    )
+    // Keep the expanded state of the group across refreshes
+    item.id = groupPath
+    item.children = items
+    item.description = `${items.length}`
+    item.tooltip = `${label} (${items.length})`
+    return item
+  }
+
+  /**
+   * Pick the grouping mode of the tree
+   */
+  async selectGroupBy(): Promise<void> {
+    const current = this.getGroupBy()
+    const picked = await vscode.window.showQuickPick(
+      GROUP_BY_OPTIONS.map((option) => ({
+        label: option.label,
+        description: option.groupBy === current ? "current" : undefined,
+        groupBy: option.groupBy,
+      })),
+      { placeHolder: "Group workspaces by" },
+    )
+    if (picked) {
+      await vscode.workspace
+        .getConfiguration("workspacesList")
+        .update("groupBy", picked.groupBy, vscode.ConfigurationTarget.Global)
+    }
+  }
+
+  /**
+   * Get the items of the Claude sessions of a workspace or member folder
+   */
+  private async getSessionItems(
+    parent: WorkspaceItem,
+  ): Promise<WorkspaceItem[]> {
+    const sessions = await this.claudeMonitor.getSessions(parent.path)
+
+    return sessions.map((session) => {
+      // Each session gets its own status badge
+      this.decorator.setStatus(session.filePath, session.status)
+      return this.createSessionItem(session, parent)
+    })
+  }
+
+  /**
+   * Create the item of a Claude session
+   */
+  private createSessionItem(
+    session: ClaudeSessionInfo,
+    parent: WorkspaceItem,
+  ): WorkspaceItem {
+    const prompt = session.firstPrompt || "(no prompt)"
+    const label = prompt.length > 60 ? `${prompt.slice(0, 59)}…` : prompt
+
+    const item = new WorkspaceItem(
+      label,
+      session.filePath,
+      parent.windowInfo,
+      this.context,
+      "session",
+      undefined,
+      undefined,
+      undefined,
+      session.status,
+      new vscode.ThemeIcon("comment-discussion"),
+    )
+    item.parent = parent
+    item.session = session
+
+    const messages = `${session.messageCount} message${session.messageCount === 1 ? "" : "s"}`
+    item.description = `${formatTimeAgo(session.lastModified)} · ${messages}`
+    item.tooltip = `${prompt}\nLast activity: ${new Date(session.lastModified).toLocaleString()}\n${messages}\n${session.filePath}`
+    if (getTotalTokens(session.usage) > 0) {
+      item.tooltip += `\nUsage: ${formatUsage(session.usage)}`
+    }
+
+    return item
+  }
+
+  /**
+   * Get the token usage of every listed workspace
+   * Only computed when the usage report is opened
+   */
+  async getWorkspaceUsage(): Promise<WorkspaceUsage[]> {
+    return Promise.all(
+      this.getWorkspaceItems().map(async (w) => ({
+        name: String(w.label),
+        usage: await this.claudeMonitor.getUsage(w.path),
+      })),
+    )
+  }
+
+  /**
+   * Get the collapsible state of a workspace or member folder
+   * Expandable when it has member folders or Claude sessions
+   */
+  private getCollapsibleState(
+    hasFolders: boolean,
+    claudeStatus: ClaudeCodeStatusInfo | undefined,
+  ): vscode.TreeItemCollapsibleState {
+    return hasFolders || (claudeStatus?.conversationCount || 0) > 0
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None
+  }
+
+  /**
+   * Get all items including member folders of multi-root workspaces
+   */
+  private getAllItems(): WorkspaceItem[] {
+    return this.workspaces.flatMap((w) => [w, ...w.children])
+  }
+
+  /**
+   * Get the top-level workspace items (no browser windows or member folders)
+   */
+  getWorkspaceItems(): WorkspaceItem[] {
+    return this.workspaces.filter((w) => w.itemType === "workspace")
+  }
+
+  /**
+   * Find the item of a workspace or member folder by path
+   */
+  getItem(itemPath: string): WorkspaceItem | undefined {
+    return this.getAllItems().find((w) => w.path === itemPath)
+  }
+
+  /**
+   * Reload the Recent section when it is expanded, in case workspaces were
+   * opened and closed in other apps since it was loaded
+   */
+  async handleExpand(element: WorkspaceItem): Promise<void> {
+    if (element.id === "builtin:recent") {
+      await this.reloadRecentItems()
+    }
+  }
+
+  /**
+   * Reload the items of the Recent section, the tree is only updated when
+   * the listed workspaces changed
+   */
+  private async reloadRecentItems(): Promise<void> {
+    const previousPaths = this.recentItems.map((r) => r.path).join("\n")
+    this.recentItems = await this.loadRecentItems()
+    if (this.recentItems.map((r) => r.path).join("\n") !== previousPaths) {
+      this._onDidChangeTreeData.fire()
+    }
+  }
+
+  /**
+   * Create the items of the Recent section: workspaces closed recently, with
+   * their last recorded Claude status
+   */
+  private async loadRecentItems(): Promise<WorkspaceItem[]> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    const maxItems = config.get<number>("recent.maxItems", 10)
+    if (maxItems <= 0) {
+      return []
+    }
+
+    const openPaths = new Set(this.workspaces.map((w) => w.path))
+    const recentWorkspaces = await getRecentWorkspaces(openPaths, maxItems)
+
+    return recentWorkspaces.map((workspace) => {
+      const windowInfo: WindowInfo = {
+        appName: workspace.appName,
+        windowTitle: getWorkspaceTitle(workspace),
+        windowIndex: 0,
+        workspacePath: workspace.workspacePath,
+        workspaceFile: workspace.workspaceFile,
+        folders: workspace.folders,
+        remote: workspace.remote,
+      }
+      const item = new WorkspaceItem(
+        windowInfo.windowTitle,
+        workspace.workspacePath,
+        windowInfo,
+        this.context,
+        "recent",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        new vscode.ThemeIcon(workspace.remote ? "remote" : "history"),
+      )
+
+      const lastPeriod = this.statusHistory
+        .getPeriods(workspace.workspacePath)
+        .pop()
+      const statusLabel =
+        lastPeriod && lastPeriod.status !== ClaudeCodeStatus.NoSession
+          ? STATUS_LABELS[lastPeriod.status]
+          : undefined
+      const lastUsed = workspace.lastUsed
+        ? formatTimeAgo(workspace.lastUsed)
+        : undefined
+
+      item.description = [lastUsed, statusLabel].filter(Boolean).join(" · ")
+      item.tooltip = [
+        workspace.remote?.remotePath || workspace.workspacePath,
+        getAppDisplayName(workspace.appName),
+        lastUsed && `Last used ${lastUsed}`,
+        statusLabel &&
+          (lastPeriod?.closed
+            ? `Claude status when closed: ${statusLabel}`
+            : `Last Claude status: ${statusLabel}`),
+      ]
+        .filter(Boolean)
+        .join("\n")
+      return item
+    })
   }
 
   private async loadWorkspaces(): Promise<void> {
     outputChannel.appendLine("[WorkspacesList] loadWorkspaces() called")
     try {
       // Get workspace windows
-      const windows = await this.windowManager.getOpenWindows()
+      const windows = await this.windowSources.getOpenWindows("workspace")
       outputChannel.appendLine(
         `[WorkspacesList] Got ${windows.length} workspace windows from manager`,
       )
 
       // Get browser windows
-      const browserWindows = await this.browserWindowManager.getBrowserWindows()
+      const browserWindows = await this.windowSources.getOpenWindows("browser")
       outputChannel.appendLine(
         `[WorkspacesList] Got ${browserWindows.length} browser windows`,
       )
@@ -136,35 +1014,42 @@ export class WorkspacesProvider
       // Create workspace items
       const workspaceItems = await Promise.all(
         windows.map(async (windowInfo) => {
-          const name = this.windowManager.getWorkspaceName(windowInfo)
+          const name = this.windowSources.getWorkspaceName(windowInfo)
           const workspacePath =
             windowInfo.workspacePath || windowInfo.windowTitle
           outputChannel.appendLine(
             `[WorkspacesList] Processing window: ${name} at ${workspacePath}`,
           )
 
+          // Multi-root workspaces aggregate the status of their member folders
+          const memberFolders = windowInfo.folders
+          if (memberFolders) {
+            this.claudeMonitor.setWorkspaceFolders(workspacePath, memberFolders)
+          }
+
+          // Remote workspaces read their status (and config) from a local
+          // mirror of the project when there is one
+          const remote = windowInfo.remote
+          const localMirror = remote ? resolveLocalMirror(remote) : undefined
+          if (remote) {
+            this.claudeMonitor.setRemoteMirror(workspacePath, localMirror)
+          }
+
           // Load config if available
-          const config =
-            (await this.configReader.readConfig(workspacePath)) || undefined
+          const configPath = this.getConfigPath(windowInfo)
+          const config = configPath
+            ? (await this.configReader.readConfig(configPath)) || undefined
+            : undefined
 
           // Get Claude Code status
           const claudeStatus = await this.claudeMonitor.getStatus(workspacePath)
 
-          // Render icon
-          const iconPath = await this.iconRenderer.renderIcon(
-            config?.icon,
-            workspacePath,
-            this.context,
-          )
-
-          // Get display name (from config or default)
-          const emojiPrefix = this.iconRenderer.getEmojiPrefix()
-          const displayName = config?.displayName || name
-          const label = emojiPrefix + displayName
+          const iconPath = await this.renderWorkspaceIcon(windowInfo, config)
+          const label = this.getWorkspaceLabel(windowInfo, config)
 
           outputChannel.appendLine(`[WorkspacesList] Created workspace item: ${label}`)
 
-          return new WorkspaceItem(
+          const item = new WorkspaceItem(
             label,
             workspacePath,
             windowInfo,
@@ -175,34 +1060,43 @@ export class WorkspacesProvider
             config,
             claudeStatus,
             iconPath,
+            this.getCollapsibleState(!!memberFolders, claudeStatus),
           )
+          if (configPath) {
+            item.setConfigProblems(
+              await this.configDiagnostics.check(configPath),
+            )
+          }
+
+          if (memberFolders) {
+            item.children = await Promise.all(
+              memberFolders.map((folder) =>
+                this.createFolderItem(folder, item),
+              ),
+            )
+          }
+
+          return item
         }),
       )
 
       // Create browser window items
       const browserItems = browserWindows.map((browserWindow) => {
-        const label = browserWindow.title
+        const label = this.windowSources.getWorkspaceName(browserWindow)
         const iconPath =
-          browserWindow.app === "Safari"
+          browserWindow.appName === "Safari"
             ? new vscode.ThemeIcon("compass")
             : new vscode.ThemeIcon("chrome-restore")
 
-        // Create a dummy WindowInfo for browser windows
-        const dummyWindowInfo: WindowInfo = {
-          appName: browserWindow.app,
-          windowTitle: browserWindow.title,
-          windowIndex: browserWindow.windowIndex,
-        }
-
         outputChannel.appendLine(`[WorkspacesList] Created browser item: ${label}`)
 
         return new WorkspaceItem(
           label,
-          browserWindow.title, // Use title as path for browser windows
-          dummyWindowInfo,
+          browserWindow.windowTitle, // Use title as path for browser windows
+          browserWindow,
           this.context,
           "browser",
-          browserWindow.app,
+          browserWindow.appName,
           browserWindow.windowIndex,
           undefined,
           undefined,
@@ -210,25 +1104,62 @@ export class WorkspacesProvider
         )
       })
 
+      // Workspaces no longer listed were closed, which ends their status
+      // period in the history
+      const listedPaths = new Set(
+        workspaceItems.flatMap((w) => [
+          w.path,
+          ...w.children.map((c) => c.path),
+        ]),
+      )
+      for (const listedPath of this.listedPaths) {
+        if (!listedPaths.has(listedPath)) {
+          this.decorator.forgetStatus(listedPath)
+        }
+      }
+      this.listedPaths = listedPaths
+
       // Combine workspace and browser items
       this.workspaces = [...workspaceItems, ...browserItems]
 
+      // The Recent section reads the workspace storage of every editor app,
+      // it is only loaded again when a workspace was opened or closed
+      const openPaths = [...listedPaths].sort().join("\n")
+      if (openPaths !== this.recentOpenPaths) {
+        this.recentOpenPaths = openPaths
+        this.recentItems = await this.loadRecentItems()
+      }
+
       outputChannel.appendLine(
         `[WorkspacesList] Total items created: ${this.workspaces.length} (${workspaceItems.length} workspaces, ${browserItems.length} browsers)`,
       )
 
+      this.updateConfigWatchers(workspaceItems)
+
       // Set up file watchers for new workspaces
-      for (const item of workspaceItems) {
-        if (item.path && !this.watchedWorkspaces.has(item.path)) {
-          const watchers = this.claudeMonitor.watchWorkspace(item.path, () => {
+      // (multi-root workspaces are watched through their member folders)
+      // (remote workspaces through their local mirror)
+      const watchedPaths = workspaceItems.flatMap((w) => {
+        if (w.children.length > 0) {
+          return w.children.map((c) => c.path)
+        }
+        if (w.windowInfo.remote) {
+          const localMirror = resolveLocalMirror(w.windowInfo.remote)
+          return localMirror ? [localMirror] : []
+        }
+        return [w.path]
+      })
+      for (const watchedPath of watchedPaths) {
+        if (watchedPath && !this.watchedWorkspaces.has(watchedPath)) {
+          const watchers = this.claudeMonitor.watchWorkspace(watchedPath, () => {
             // Do not immediately update the status
             // On file change, update Claude Code status for this workspace
-            //console.log(`[WorkspacesList] Claude Code file change detected for ${item.path}`)
+            //console.log(`[WorkspacesList] Claude Code file change detected for ${watchedPath}`)
             //this.updateClaudeCodeStatus()
           })
           this.disposables.push(...watchers)
-          this.watchedWorkspaces.add(item.path)
-          outputChannel.appendLine(`[WorkspacesList] Set up watcher for ${item.path}`)
+          this.watchedWorkspaces.add(watchedPath)
+          outputChannel.appendLine(`[WorkspacesList] Set up watcher for ${watchedPath}`)
         }
       }
     } catch (error: unknown) {
@@ -237,15 +1168,206 @@ export class WorkspacesProvider
     }
   }
 
+  /**
+   * Get the folder whose .workspaces-list.json configures a workspace
+   * Multi-root workspaces use their first folder's, remote workspaces their
+   * local mirror's (if any)
+   */
+  private getConfigPath(windowInfo: WindowInfo): string | undefined {
+    if (windowInfo.remote) {
+      return resolveLocalMirror(windowInfo.remote)
+    }
+    return (
+      windowInfo.folders?.[0] ||
+      windowInfo.workspacePath ||
+      windowInfo.windowTitle
+    )
+  }
+
+  /**
+   * Get the label of a workspace (from config or default)
+   */
+  private getWorkspaceLabel(
+    windowInfo: WindowInfo,
+    config: WorkspaceConfig | undefined,
+  ): string {
+    const emojiPrefix = this.iconRenderer.getEmojiPrefix()
+    const displayName =
+      config?.displayName || this.windowSources.getWorkspaceName(windowInfo)
+    return emojiPrefix + displayName
+  }
+
+  /**
+   * Render the icon of a workspace (remote workspaces default to a dashed monogram)
+   * The status is drawn over the icon when workspacesList.statusOverlay is on
+   */
+  private async renderWorkspaceIcon(
+    windowInfo: WindowInfo,
+    config: WorkspaceConfig | undefined,
+  ): Promise<
+    | vscode.ThemeIcon
+    | vscode.Uri
+    | { light: vscode.Uri; dark: vscode.Uri }
+    | undefined
+  > {
+    const name =
+      config?.displayName || this.windowSources.getWorkspaceName(windowInfo)
+    // Remote workspaces aren't searched for a repository logo, their monogram
+    // is an SVG so the status overlay still applies
+    const icon =
+      windowInfo.remote && !config?.icon
+        ? createMonogramSvg(name, true)
+        : config?.icon
+    return this.iconRenderer.renderIcon(
+      icon,
+      this.getConfigPath(windowInfo) ||
+        windowInfo.workspacePath ||
+        windowInfo.windowTitle,
+      this.context,
+      this.decorator.getDisplayedStatus(
+        windowInfo.workspacePath || windowInfo.windowTitle,
+      ),
+      name,
+    )
+  }
+
+  /**
+   * Re-render the icons of the workspaces using a URL icon just downloaded
+   */
+  private async updateUrlIcons(url: string): Promise<void> {
+    for (const item of this.getWorkspaceItems()) {
+      if (item.config?.icon === url) {
+        item.iconPath = await this.renderWorkspaceIcon(
+          item.windowInfo,
+          item.config,
+        )
+        this._onDidChangeTreeData.fire(item)
+      }
+    }
+  }
+
+  /**
+   * Re-render the icons of workspaces whose status changed, when the status
+   * is drawn over the icons
+   */
+  private async updateStatusIcons(items: WorkspaceItem[]): Promise<void> {
+    const config = vscode.workspace.getConfiguration("workspacesList")
+    if (config.get<string>("statusOverlay", "off") === "off") {
+      return
+    }
+    for (const item of items) {
+      if (item.itemType === "workspace") {
+        item.iconPath = await this.renderWorkspaceIcon(
+          item.windowInfo,
+          item.config,
+        )
+      }
+    }
+  }
+
+  /**
+   * Watch the config file of every open workspace, and stop watching the
+   * config files of closed ones
+   */
+  private updateConfigWatchers(workspaceItems: WorkspaceItem[]): void {
+    const configPaths = new Set(
+      workspaceItems
+        .map((item) => this.getConfigPath(item.windowInfo))
+        .filter((p): p is string => !!p),
+    )
+
+    for (const [configPath, watcher] of this.configWatchers) {
+      if (!configPaths.has(configPath)) {
+        watcher.dispose()
+        this.configWatchers.delete(configPath)
+      }
+    }
+
+    for (const configPath of configPaths) {
+      if (this.configWatchers.has(configPath)) {
+        continue
+      }
+      const watcher = this.configReader.watchConfig(configPath, () => {
+        void this.reloadConfig(configPath)
+      })
+      if (watcher) {
+        this.configWatchers.set(configPath, watcher)
+      }
+    }
+  }
+
+  /**
+   * Apply a changed config file to the workspaces it configures
+   * Only the affected items are re-rendered, unless their new name or group
+   * moves them in the tree
+   */
+  private async reloadConfig(configPath: string): Promise<void> {
+    const items = this.getWorkspaceItems().filter(
+      (item) => this.getConfigPath(item.windowInfo) === configPath,
+    )
+    if (items.length === 0) {
+      return
+    }
+
+    outputChannel.appendLine(
+      `[WorkspacesList] Config changed for ${configPath}`,
+    )
+    const config = (await this.configReader.readConfig(configPath)) || undefined
+
+    let moved = false
+    for (const item of items) {
+      const label = this.getWorkspaceLabel(item.windowInfo, config)
+      moved ||= label !== item.label || config?.group !== item.config?.group
+      item.config = config
+      item.label = label
+      item.iconPath = await this.renderWorkspaceIcon(item.windowInfo, config)
+      item.setColor(config?.color)
+      item.setConfigProblems(await this.configDiagnostics.check(configPath))
+      this._onDidChangeTreeData.fire(item)
+    }
+
+    if (moved) {
+      this._onDidChangeTreeData.fire()
+    }
+  }
+
+  /**
+   * Create the item of a multi-root workspace member folder
+   */
+  private async createFolderItem(
+    folderPath: string,
+    parent: WorkspaceItem,
+  ): Promise<WorkspaceItem> {
+    const claudeStatus = await this.claudeMonitor.getStatus(folderPath)
+
+    const item = new WorkspaceItem(
+      path.basename(folderPath),
+      folderPath,
+      parent.windowInfo,
+      this.context,
+      "folder",
+      undefined,
+      undefined,
+      undefined,
+      claudeStatus,
+      new vscode.ThemeIcon("folder"),
+      this.getCollapsibleState(false, claudeStatus),
+    )
+    item.parent = parent
+    return item
+  }
+
   async focusWorkspace(item: WorkspaceItem): Promise<void> {
+    // Member folders and sessions focus the window they belong to
+    if (item.parent) {
+      return this.focusWorkspace(item.parent)
+    }
+
     try {
       if (item.itemType === "browser") {
         // Focus browser window
         if (item.browserApp && item.browserWindowIndex) {
-          const success = await this.browserWindowManager.focusWindow(
-            item.browserApp,
-            item.browserWindowIndex,
-          )
+          const success = await this.windowSources.focusWindow(item.windowInfo)
           if (!success) {
             vscode.window.showErrorMessage(
               `Failed to focus browser window: ${item.label}`,
@@ -255,6 +1377,8 @@ export class WorkspacesProvider
       } else {
         // Mark as acknowledged so RecentlyFinished status changes to Running
         this.decorator.markAsAcknowledged(item.path)
+        await this.updateStatusIcons([item])
+        this._onDidChangeTreeData.fire(item)
 
         // Update the last modified timestamp in ClaudeCodeMonitor to trigger state transition
         // This will make other windows detect the change and transition from "Recently Finished" to "Running"
@@ -263,9 +1387,16 @@ export class WorkspacesProvider
           await this.claudeMonitor.updateLastAccessTime(item.path)
         }
 
+        // Let the source do any native focusing it supports
+        await this.windowSources.focusWindow(item.windowInfo)
+
         // Use VSCode's built-in command to switch to the workspace
         // This opens the folder in a new window or switches to existing window
-        const uri = vscode.Uri.file(item.path)
+        // Multi-root windows (and their folders) reopen the .code-workspace file
+        // Remote windows reopen their vscode-remote:// URI
+        const uri = item.windowInfo.remote
+          ? vscode.Uri.parse(item.windowInfo.remote.uri)
+          : vscode.Uri.file(item.windowInfo.workspaceFile || item.path)
         await vscode.commands.executeCommand("vscode.openFolder", uri, {
           forceReuseWindow: false,
         })
@@ -281,6 +1412,40 @@ export class WorkspacesProvider
     }
   }
 
+  /**
+   * Pick a Claude session of an item
+   * Session items resolve to their own session, workspaces and member
+   * folders prompt when they have more than one
+   */
+  async pickSession(
+    item: WorkspaceItem,
+  ): Promise<ClaudeSessionInfo | undefined> {
+    if (item.session) {
+      return item.session
+    }
+
+    const sessions = await this.claudeMonitor.getSessions(item.path)
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage(
+        `No Claude Code conversations in ${item.label}`,
+      )
+      return undefined
+    }
+    if (sessions.length === 1) {
+      return sessions[0]
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      sessions.map((session) => ({
+        label: session.firstPrompt || "(no prompt)",
+        description: `${formatTimeAgo(session.lastModified)} · ${session.messageCount} messages`,
+        session,
+      })),
+      { placeHolder: `Conversations in ${item.label}` },
+    )
+    return picked?.session
+  }
+
   /**
    * Start monitoring Claude Code status
    * Only monitors when window is focused (performance optimization)
@@ -310,7 +1475,7 @@ export class WorkspacesProvider
    * Update Claude Code status for all workspaces
    */
   private async updateClaudeCodeStatus(): Promise<void> {
-    const workspacePaths = this.workspaces.map((w) => w.path)
+    const workspacePaths = this.getAllItems().map((w) => w.path)
     if (workspacePaths.length > 0 && this.decorator) {
       // Only log when there are actual changes to reduce noise
       const changedPaths =
@@ -322,18 +1487,35 @@ export class WorkspacesProvider
         )
 
         // Only refresh the tree items that actually changed
-        const changedItems = this.workspaces.filter((w) =>
+        const changedItems = this.getAllItems().filter((w) =>
           changedPaths.includes(w.path),
         )
+        await this.updateStatusIcons(changedItems)
 
         // Fire change events only for items that changed
+        // (this also refreshes the sessions of expanded items)
         for (const workspace of changedItems) {
+          if (workspace.collapsibleState === vscode.TreeItemCollapsibleState.None) {
+            // Sessions may have appeared since the item was created
+            workspace.collapsibleState = this.getCollapsibleState(
+              false,
+              this.decorator.getCachedStatus(workspace.path),
+            )
+          }
           this._onDidChangeTreeData.fire(workspace)
         }
 
         // If many items changed, also fire a general refresh
         // This ensures the tree view fully updates when there are bulk changes
-        if (changedItems.length > 3) {
+        // (and moves workspaces between groups, sort positions and filter
+        // results that depend on the status)
+        if (
+          changedItems.length > 3 ||
+          isStatusFilter(this.filter) ||
+          this.getGroupBy() === "status" ||
+          this.getSortBy() === "recent" ||
+          this.getSortBy() === "urgency"
+        ) {
           setTimeout(() => {
             this._onDidChangeTreeData.fire()
           }, 100)
@@ -392,6 +1574,10 @@ export class WorkspacesProvider
     }
 
     this.claudeMonitor.dispose()
+    for (const watcher of this.configWatchers.values()) {
+      watcher.dispose()
+    }
+    this._onDidChangeFilter.dispose()
 
     for (const disposable of this.disposables) {
       disposable.dispose()